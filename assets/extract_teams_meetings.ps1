@@ -1,6 +1,13 @@
 
 function extract-meetings {
-    $OutputPath = "$env:USERPROFILE\meetings.csv"
+    param(
+        # CSV file to write (the extension passes its "Meetings File Path" preference)
+        [string]$OutputPath = "$env:USERPROFILE\meetings.csv",
+        # Number of days after today to export
+        [int]$DaysAhead = 5,
+        # Number of days before today to export
+        [int]$DaysBehind = 0
+    )
 
     try {
         # This requires the Outlook client to be running.
@@ -11,8 +18,9 @@ function extract-meetings {
         $allAppointments.IncludeRecurrences = $true
         $allAppointments.Sort("[Start]")
 
-        $startTime = (Get-Date).ToShortDateString()
-        $endTime = (Get-Date).AddDays(5).ToShortDateString()
+        $startTime = (Get-Date).AddDays(-$DaysBehind).ToShortDateString()
+        # Restrict compares against midnight, so add a day to include all of the last day
+        $endTime = (Get-Date).AddDays($DaysAhead + 1).ToShortDateString()
         $filter = "[Start] < '$endTime' AND [End] >= '$startTime'"
         $restrictedAppointments = $allAppointments.Restrict($filter)
 
@@ -28,24 +36,54 @@ function extract-meetings {
         }
 
         $meetingsOutput = [System.Collections.Generic.List[object]]::new()
-        $teamsUrlRegex = [regex]'https://teams.microsoft.com/l/meetup-join/[^"'' >]+'
+        # Teams (meetup-join, /meet/ short links and teams.live.com), Zoom, Google Meet and Webex join links
+        $meetingUrlRegex = [regex]'https://(?:[\w-]+\.)*(?:teams\.(?:microsoft|live)\.com/(?:l/meetup-join|meet)/|zoom(?:gov)?\.(?:us|com)/(?:j|w|my|s)/|meet\.google\.com/[a-z]{3}-[a-z]{4}-[a-z]{3}|webex\.com/(?:[\w-]+/)?(?:meet/|join/|j\.php|wbxmjs/joinservice/))[^"'' <>\s]*'
+        # Safe Links wrap the original URL in the "url" query parameter
+        $safeLinksRegex = [regex]'https://[\w.-]*safelinks\.protection\.outlook\.com/\?[^"'' <>\s]+'
+        $unwrapSafeLink = [System.Text.RegularExpressions.MatchEvaluator] {
+            param($safeLink)
+            $target = [regex]::Match($safeLink.Value, '[?&]url=([^&]+)')
+            if ($target.Success) { [System.Uri]::UnescapeDataString($target.Groups[1].Value) } else { $safeLink.Value }
+        }
+        # Names of the OlResponseStatus values
+        $responseStatusNames = @{ 0 = 'None'; 1 = 'Organizer'; 2 = 'Tentative'; 3 = 'Accepted'; 4 = 'Declined'; 5 = 'None' }
         foreach ($meeting in $upcomingMeetings) {
-            $match = $teamsUrlRegex.Match($meeting.Body)
+            # Zoom and Webex invites often only carry the link in the location
+            $text = $safeLinksRegex.Replace("$($meeting.Location) $($meeting.Body)", $unwrapSafeLink)
+            $match = $meetingUrlRegex.Match($text)
             if ($match.Success) {
+                # Keep the agenda before the join instructions, which follow a line of underscores
+                $body = ([regex]::Split([string]$meeting.Body, '(?m)^\s*_{10,}\s*$')[0]).Trim()
+                if ($body.Length -gt 500) { $body = $body.Substring(0, 500) }
                 $meetingsOutput.Add([PSCustomObject]@{ 
-                    StartTime = Get-Date $meeting.Start
-                    Subject   = $meeting.Subject
-                    TeamsLink = $match.Value
+                    # ISO 8601 with the UTC offset, so the extension never has to guess the day/month order; the invariant culture
+                    # keeps ':' as the time separator on locales that use '.'
+                    StartTime         = (Get-Date $meeting.Start).ToString('yyyy-MM-ddTHH:mm:sszzz', [Globalization.CultureInfo]::InvariantCulture)
+                    EndTime           = (Get-Date $meeting.End).ToString('yyyy-MM-ddTHH:mm:sszzz', [Globalization.CultureInfo]::InvariantCulture)
+                    Subject           = $meeting.Subject
+                    TeamsLink         = $match.Value
+                    Organizer         = $meeting.Organizer
+                    RequiredAttendees = $meeting.RequiredAttendees
+                    OptionalAttendees = $meeting.OptionalAttendees
+                    Location          = $meeting.Location
+                    ResponseStatus    = $responseStatusNames[[int]$meeting.ResponseStatus]
+                    Body              = $body
                 })
             }
         }
 
+        # Create the output folder when it doesn't exist yet
+        $outputFolder = Split-Path -Parent $OutputPath
+        if ($outputFolder -and -not (Test-Path $outputFolder)) {
+            New-Item -ItemType Directory -Path $outputFolder -Force | Out-Null
+        }
+
         $meetingsOutput | Sort-Object -Property StartTime | Export-Csv -Path $OutputPath -NoTypeInformation -Encoding UTF8 -Delimiter ';'
-        Write-Host "Success: $($meetingsOutput.Count) Teams meetings for the next 5 days exported to $OutputPath"
+        Write-Host "Success: $($meetingsOutput.Count) online meetings from $DaysBehind days ago to $DaysAhead days ahead exported to $OutputPath"
 
     } catch {
-        Write-Error "An error occurred: $_"
-        Write-Error "Please ensure Microsoft Outlook is running or can be started."
+        # Rethrow so PowerShell exits with a non-zero code and the extension reports the failed refresh
+        throw "An error occurred: $_. Please ensure Microsoft Outlook is running or can be started."
     } finally {
         # Clean up COM objects
         if ($restrictedAppointments) { [System.Runtime.InteropServices.Marshal]::ReleaseComObject($restrictedAppointments) | Out-Null }
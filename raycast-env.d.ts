@@ -8,14 +8,56 @@
 /* eslint-disable @typescript-eslint/ban-types */
 
 type ExtensionPreferences = {
-  /** Meetings File Path - Path to your meetings CSV file. Use ~ for your home directory. Default works with bundled PowerShell script. */
+  /** Meetings Source - Where to load meetings from: the meetings file (refreshed with PowerShell), your Microsoft 365 calendar through Microsoft Graph, or both. */
+  "calendarProvider": "file" | "graph" | "both",
+  /** Meetings File Path - Path to your meetings CSV or iCalendar (.ics) file. Use ~ for your home directory. The PowerShell script writes to this path. */
   "meetingsFilePath": string,
   /** PowerShell Script Path (Optional) - Path to a custom PowerShell script. Leave empty to use the bundled script. Use ~ for your home directory. */
   "powershellScriptPath": string,
   /** PowerShell Function Name (Optional) - Name of the PowerShell function to call. Leave empty to use 'extract-meetings' (bundled script default). */
   "powershellFunctionName": string,
+  /** PowerShell Timeout (Seconds) - Stop the PowerShell script if it runs longer than this many seconds. */
+  "powershellTimeoutSeconds": string,
   /** Auto-Refresh Time (Hours) - Automatically refresh meetings file if older than this many hours. Set to 0 to disable auto-refresh. */
-  "autoRefreshHours": string
+  "autoRefreshHours": string,
+  /** Days Ahead - Number of days after today to load from iCalendar (.ics) files and Microsoft Graph and to export with the PowerShell script. */
+  "daysAhead": string,
+  /** Days Behind - Number of days before today to load from iCalendar (.ics) files and Microsoft Graph and to export with the PowerShell script. */
+  "daysBehind": string,
+  /** Early Join Buffer (Minutes) - Show meetings as active this many minutes before they start. */
+  "earlyJoinMinutes": string,
+  /** Default Meeting Duration (Minutes) - Duration assumed for meetings without an end time or duration. */
+  "defaultDurationMinutes": string,
+  /** Date Format - How dates in the meetings CSV file are written. Rows whose dates don't match are skipped and reported. */
+  "dateFormat": "auto" | "iso" | "dmy" | "mdy",
+  /** Meetings File Time Zone - IANA time zone (e.g. Europe/Berlin) of times in the meetings CSV file that have no UTC offset. Leave empty to use the system time zone. */
+  "meetingsTimeZone": string,
+  /** Reminder Lead Time (Minutes) - Show a reminder this many minutes before each meeting starts (requires the Meeting Reminders command to be enabled). Set to 0 to disable reminders. */
+  "reminderMinutes": string,
+  /** Working Hours Start - Start of your working day (HH:MM), used to list free slots between meetings. */
+  "workingHoursStart": string,
+  /** Working Hours End - End of your working day (HH:MM), used to list free slots between meetings. */
+  "workingHoursEnd": string,
+  /** Auto-join Subjects - Meetings whose subject contains one of these texts (separated by semicolons) are joined automatically when they start, e.g. "Daily Standup; Sprint Review". */
+  "autoJoinSubjects": string,
+  /** Notes Folder - Folder where meeting notes are created as Markdown files. Use ~ for your home directory. */
+  "notesFolder": string,
+  /** Note Template (Optional) - Markdown file used for new notes, with placeholders such as {{date}}, {{time}}, {{link}}, {{organizer}} and {{attendees}}. Leave empty for the built-in template. */
+  "noteTemplatePath": string,
+  /** Recurring Meetings - Meetings with the same subject share one note, with a section for every occurrence. */
+  "notesPerSeries": boolean,
+  /** Open Meetings In - Open meetings in the provider's desktop app (falling back to the browser when it can't be opened) or always in the browser. */
+  "joinTarget": "app" | "browser",
+  /** Join Rules (Optional) - Domains whose meetings open in the app or the browser regardless of the setting above, separated by semicolons, e.g. teams.live.com=browser; contoso.zoom.us=app */
+  "joinRules": string,
+  /** Additional Sources (Optional) - More CSV or .ics files to merge into the list, separated by semicolons. Each entry is a path or Name=path, e.g. Team=~/team.csv; Tenant B=~/tenant-b.ics */
+  "additionalSources": string,
+  /** Microsoft Graph Client ID (Optional) - Application (client) ID of an Azure app registration with the Calendars.Read delegated permission. Required when loading meetings from Microsoft Graph. */
+  "graphClientId": string,
+  /** Microsoft Graph Tenant (Optional) - Directory (tenant) ID or domain to sign in to. Leave empty to use 'common'. */
+  "graphTenantId": string,
+  /** Microsoft Graph Base URL (Optional) - Base URL of the Microsoft Graph API. Change it only to test against a mock server. */
+  "graphBaseUrl": string
 }
 
 /** Preferences accessible in all the extension's commands */
@@ -24,10 +66,34 @@ declare type Preferences = ExtensionPreferences
 declare namespace Preferences {
   /** Preferences accessible in the `find-meetings` command */
   export type FindMeetings = ExtensionPreferences & {}
+  /** Preferences accessible in the `menu-bar` command */
+  export type MenuBar = ExtensionPreferences & {}
+  /** Preferences accessible in the `join-next-meeting` command */
+  export type JoinNextMeeting = ExtensionPreferences & {}
+  /** Preferences accessible in the `meeting-reminders` command */
+  export type MeetingReminders = ExtensionPreferences & {}
+  /** Preferences accessible in the `join-meeting` command */
+  export type JoinMeeting = ExtensionPreferences & {}
+  /** Preferences accessible in the `meeting-history` command */
+  export type MeetingHistory = ExtensionPreferences & {}
+  /** Preferences accessible in the `check-setup` command */
+  export type CheckSetup = ExtensionPreferences & {}
 }
 
 declare namespace Arguments {
   /** Arguments passed to the `find-meetings` command */
   export type FindMeetings = {}
+  /** Arguments passed to the `menu-bar` command */
+  export type MenuBar = {}
+  /** Arguments passed to the `join-next-meeting` command */
+  export type JoinNextMeeting = {}
+  /** Arguments passed to the `meeting-reminders` command */
+  export type MeetingReminders = {}
+  /** Arguments passed to the `join-meeting` command */
+  export type JoinMeeting = {}
+  /** Arguments passed to the `meeting-history` command */
+  export type MeetingHistory = {}
+  /** Arguments passed to the `check-setup` command */
+  export type CheckSetup = {}
 }
 
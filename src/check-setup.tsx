@@ -0,0 +1,133 @@
+import {
+    Action,
+    ActionPanel,
+    Color,
+    getPreferenceValues,
+    Icon,
+    List,
+    openExtensionPreferences,
+    showToast,
+    Toast,
+} from "@raycast/api"
+import { useEffect, useState } from "react"
+import { RefreshLogDetail } from "./components/refresh-log-detail"
+import { CheckGroup, CheckStatus, formatSetupReport, runSetupChecks, SetupCheck } from "./lib/diagnostics"
+import { Preferences } from "./lib/preferences"
+
+// Function to get the icon shown for a check result
+function getCheckIcon(status: CheckStatus): { source: Icon; tintColor: Color } {
+    switch (status) {
+        case CheckStatus.Pass:
+            return { source: Icon.CheckCircle, tintColor: Color.Green }
+        case CheckStatus.Warn:
+            return { source: Icon.Warning, tintColor: Color.Orange }
+        default:
+            return { source: Icon.XMarkCircle, tintColor: Color.Red }
+    }
+}
+
+// Function to render a check and its details as Markdown for the detail pane
+function getCheckMarkdown(check: SetupCheck): string {
+    const sections = [`## ${check.title}`, check.message]
+    if (check.details && check.details.length > 0) {
+        sections.push(check.details.map(detail => `- ${detail}`).join("\n"))
+    }
+    return sections.join("\n\n")
+}
+
+/**
+ * Checks the meetings file, PowerShell script and Microsoft 365 setup and lists every check with its result,
+ * with a copyable report for bug reports.
+ */
+export default function Command() {
+    const preferences = getPreferenceValues<Preferences>()
+    const [groups, setGroups] = useState<CheckGroup[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+
+    // Function to run all checks
+    const runChecks = async () => {
+        setIsLoading(true)
+        try {
+            const results = await runSetupChecks(preferences)
+            setGroups(results)
+
+            const checks = results.flatMap(group => group.checks)
+            const failed = checks.filter(check => check.status === CheckStatus.Fail).length
+            const warned = checks.filter(check => check.status === CheckStatus.Warn).length
+            if (failed > 0 || warned > 0) {
+                await showToast({
+                    style: Toast.Style.Failure,
+                    title: failed > 0 ? "Setup Has Problems" : "Setup Has Warnings",
+                    message: `${failed} failed, ${warned} with warnings`,
+                })
+            }
+        } catch (error) {
+            await showToast({
+                style: Toast.Style.Failure,
+                title: "Could Not Check Setup",
+                message: error instanceof Error ? error.message : "An unknown error occurred",
+            })
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    // useEffect with an empty dependency array runs only once on mount
+    useEffect(() => {
+        runChecks()
+    }, [])
+
+    const report = formatSetupReport(groups)
+
+    return (
+        <List isLoading={isLoading} isShowingDetail={groups.length > 0} searchBarPlaceholder="Filter checks...">
+            {groups.map(group => (
+                <List.Section key={group.title} title={group.title}>
+                    {group.checks.map(check => (
+                        <List.Item
+                            key={`${group.title}-${check.title}`}
+                            title={check.title}
+                            icon={getCheckIcon(check.status)}
+                            keywords={[group.title, check.status]}
+                            detail={<List.Item.Detail markdown={getCheckMarkdown(check)} />}
+                            actions={
+                                <ActionPanel>
+                                    <Action.CopyToClipboard title="Copy Report" content={report} />
+                                    <Action.CopyToClipboard
+                                        title="Copy Check"
+                                        content={`[${check.status.toUpperCase()}] ${check.title}: ${check.message}`}
+                                        shortcut={{
+                                            macOS: { modifiers: ["cmd", "shift"], key: "c" },
+                                            windows: { modifiers: ["ctrl", "shift"], key: "c" },
+                                        }}
+                                    />
+                                    {check.path && <Action.Open title="Open File" target={check.path} />}
+                                    {check.path && <Action.ShowInFinder path={check.path} />}
+                                    <Action
+                                        title="Run Checks Again"
+                                        icon={Icon.Repeat}
+                                        onAction={runChecks}
+                                        shortcut={{
+                                            macOS: { modifiers: ["cmd"], key: "r" },
+                                            windows: { modifiers: ["ctrl"], key: "r" },
+                                        }}
+                                    />
+                                    <Action.Push
+                                        title="Show Last Refresh Log"
+                                        icon={Icon.Document}
+                                        target={<RefreshLogDetail />}
+                                    />
+                                    <Action
+                                        title="Open Extension Preferences"
+                                        icon={Icon.Gear}
+                                        onAction={openExtensionPreferences}
+                                    />
+                                </ActionPanel>
+                            }
+                        />
+                    ))}
+                </List.Section>
+            ))}
+        </List>
+    )
+}
@@ -0,0 +1,100 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api"
+import { formatTime, MeetingInfo, MeetingsWindow } from "../lib/meetings"
+import { formatSlot, getFreeSlots, TimeSlot, WorkingHours } from "../lib/schedule"
+
+// Function to list the days from today to the end of the window, skipping weekends without meetings
+function getDays(window: MeetingsWindow, meetings: MeetingInfo[], now: Date): Date[] {
+    const days: Date[] = []
+    const day = new Date(now)
+    day.setHours(0, 0, 0, 0)
+
+    while (day < window.end) {
+        const isWeekend = day.getDay() === 0 || day.getDay() === 6
+        if (!isWeekend || meetings.some(meeting => meeting.parsedDate.toDateString() === day.toDateString())) {
+            days.push(new Date(day))
+        }
+        day.setDate(day.getDate() + 1)
+    }
+
+    return days
+}
+
+// Function to get the title of a day, e.g. "Today" or "Thursday, Oct 22"
+function getDayTitle(day: Date, now: Date): string {
+    if (day.toDateString() === now.toDateString()) {
+        return "Today"
+    }
+    return day.toLocaleDateString([], { weekday: "long", month: "short", day: "numeric" })
+}
+
+// Function to write the free slots of a day as one line to paste into a chat
+function getDayText(title: string, slots: TimeSlot[]): string {
+    const ranges = slots.map(slot => `${formatTime(slot.start)}–${formatTime(slot.end)}`)
+    return `Free ${title.toLowerCase() === "today" ? "today" : `on ${title}`}: ${ranges.join(", ") || "no free time"}`
+}
+
+/**
+ * Lists the free slots between meetings within the working hours of every loaded day.
+ * @param props.meetings The meetings that occupy time (e.g. without declined or hidden meetings)
+ * @param props.workingHours The working hours
+ * @param props.window The loaded days
+ */
+export function FreeSlotsList(props: { meetings: MeetingInfo[]; workingHours: WorkingHours; window: MeetingsWindow }) {
+    const { meetings, workingHours, window } = props
+    const now = new Date()
+    const days = getDays(window, meetings, now).map(day => {
+        const title = getDayTitle(day, now)
+        return { day, title, slots: getFreeSlots(meetings, day, workingHours, now) }
+    })
+    const allText = days.map(({ title, slots }) => getDayText(title, slots)).join("\n")
+
+    return (
+        <List navigationTitle="Free Slots" searchBarPlaceholder="Filter free slots...">
+            {days.map(({ day, title, slots }) => {
+                const dayText = getDayText(title, slots)
+                const copyActions = (
+                    <>
+                        <Action.CopyToClipboard title="Copy Free Slots of Day" content={dayText} />
+                        <Action.CopyToClipboard
+                            title="Copy All Free Slots"
+                            content={allText}
+                            shortcut={{
+                                macOS: { modifiers: ["cmd", "shift"], key: "c" },
+                                windows: { modifiers: ["ctrl", "shift"], key: "c" },
+                            }}
+                        />
+                    </>
+                )
+
+                return (
+                    <List.Section key={day.toDateString()} title={title} subtitle={`${slots.length} free`}>
+                        {slots.length === 0 ? (
+                            <List.Item
+                                title="No free time"
+                                icon={{ source: Icon.Calendar, tintColor: Color.SecondaryText }}
+                                actions={<ActionPanel>{copyActions}</ActionPanel>}
+                            />
+                        ) : (
+                            slots.map(slot => (
+                                <List.Item
+                                    key={slot.start.toISOString()}
+                                    title={formatSlot(slot)}
+                                    icon={{ source: Icon.Clock, tintColor: Color.Green }}
+                                    actions={
+                                        <ActionPanel>
+                                            {copyActions}
+                                            <Action.CopyToClipboard
+                                                title="Copy Slot"
+                                                content={`${formatTime(slot.start)}–${formatTime(slot.end)}`}
+                                            />
+                                        </ActionPanel>
+                                    }
+                                />
+                            ))
+                        )}
+                    </List.Section>
+                )
+            })}
+        </List>
+    )
+}
@@ -0,0 +1,107 @@
+import { Action, ActionPanel, Icon, List, showToast, Toast } from "@raycast/api"
+import { useEffect, useState } from "react"
+import { getMeetingRules, MeetingRule, removeMeetingRule, RuleAction } from "../lib/rules"
+import { getRuleActionIcon, getRuleActionName, RuleForm } from "./rule-form"
+
+// Section titles of the rule actions
+const SECTION_TITLES: Record<RuleAction, string> = {
+    [RuleAction.Pin]: "Pinned",
+    [RuleAction.Hide]: "Hidden",
+    [RuleAction.Mute]: "Muted",
+}
+
+// Function to describe which meetings a rule applies to
+function getRuleTitle(rule: MeetingRule): string {
+    return rule.subjectPattern ? `Subject contains "${rule.subjectPattern}"` : (rule.subject ?? "Meeting")
+}
+
+/**
+ * Lists the pin, hide and mute rules so they can be edited or removed.
+ * @param props.onChange Called with the updated rules after every change
+ */
+export function ManageRules(props: { onChange: (rules: MeetingRule[]) => void }) {
+    const [rules, setRules] = useState<MeetingRule[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+
+    // useEffect with an empty dependency array runs only once on mount
+    useEffect(() => {
+        getMeetingRules()
+            .then(setRules)
+            .finally(() => setIsLoading(false))
+    }, [])
+
+    // Function to show and report updated rules
+    const update = (updated: MeetingRule[]) => {
+        setRules(updated)
+        props.onChange(updated)
+    }
+
+    // Function to remove a rule
+    const remove = async (rule: MeetingRule) => {
+        update(await removeMeetingRule(rule.id))
+        await showToast({ style: Toast.Style.Success, title: "Rule Removed", message: getRuleTitle(rule) })
+    }
+
+    const addAction = (
+        <Action.Push
+            title="Add Rule"
+            icon={Icon.Plus}
+            target={<RuleForm onSave={update} />}
+            shortcut={{
+                macOS: { modifiers: ["cmd"], key: "n" },
+                windows: { modifiers: ["ctrl"], key: "n" },
+            }}
+        />
+    )
+
+    return (
+        <List isLoading={isLoading} navigationTitle="Manage Rules" searchBarPlaceholder="Filter rules...">
+            {[RuleAction.Pin, RuleAction.Hide, RuleAction.Mute].map(action => (
+                <List.Section key={action} title={SECTION_TITLES[action]}>
+                    {rules
+                        .filter(rule => rule.action === action)
+                        .map(rule => (
+                            <List.Item
+                                key={rule.id}
+                                title={getRuleTitle(rule)}
+                                subtitle={rule.start ? new Date(rule.start).toLocaleString() : undefined}
+                                icon={getRuleActionIcon(rule.action)}
+                                accessories={[
+                                    { tag: rule.subjectPattern ? "All Matching Meetings" : "Single Meeting" },
+                                    { text: getRuleActionName(rule.action) },
+                                ]}
+                                actions={
+                                    <ActionPanel>
+                                        {rule.subjectPattern && (
+                                            <Action.Push
+                                                title="Edit Rule"
+                                                icon={Icon.Pencil}
+                                                target={<RuleForm rule={rule} onSave={update} />}
+                                            />
+                                        )}
+                                        <Action
+                                            title="Remove Rule"
+                                            icon={Icon.Trash}
+                                            style={Action.Style.Destructive}
+                                            onAction={() => remove(rule)}
+                                            shortcut={{
+                                                macOS: { modifiers: ["ctrl"], key: "x" },
+                                                windows: { modifiers: ["ctrl", "shift"], key: "x" },
+                                            }}
+                                        />
+                                        {addAction}
+                                    </ActionPanel>
+                                }
+                            />
+                        ))}
+                </List.Section>
+            ))}
+            <List.EmptyView
+                title="No Rules"
+                description="Pin, hide or mute meetings from the meeting list, or add a rule for a subject."
+                icon={Icon.Filter}
+                actions={<ActionPanel>{addAction}</ActionPanel>}
+            />
+        </List>
+    )
+}
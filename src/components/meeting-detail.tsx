@@ -0,0 +1,86 @@
+import { Color, List } from "@raycast/api"
+import { ResponseStatus } from "../lib/details"
+import { getProviderName } from "../lib/links"
+import { MeetingInfo } from "../lib/meetings"
+
+/**
+ * Gets the label and color of a response status, or undefined for statuses that aren't shown.
+ * @param status The user's response
+ * @returns The text and color of the status tag
+ */
+export function getResponseTag(status?: ResponseStatus): { value: string; color: Color } | undefined {
+    switch (status) {
+        case ResponseStatus.Accepted:
+            return { value: "Accepted", color: Color.Green }
+        case ResponseStatus.Tentative:
+            return { value: "Tentative", color: Color.Yellow }
+        case ResponseStatus.Declined:
+            return { value: "Declined", color: Color.Red }
+        default:
+            return undefined
+    }
+}
+
+// Renders the subject and body excerpt of a meeting as Markdown
+function getMeetingMarkdown(meeting: MeetingInfo): string {
+    const sections = [`## ${meeting.Subject}`, meeting.timeDisplay]
+    if (meeting.bodyExcerpt) {
+        // Quote the excerpt so Markdown in meeting bodies isn't rendered as headings or lists
+        sections.push(
+            meeting.bodyExcerpt
+                .split("\n")
+                .map(line => `> ${line}`)
+                .join("\n"),
+        )
+    }
+    return sections.join("\n\n")
+}
+
+/**
+ * Side pane with the organizer, attendees, location, response and agenda of a meeting.
+ */
+export function MeetingDetail(props: { meeting: MeetingInfo }) {
+    const { meeting } = props
+    const responseTag = getResponseTag(meeting.responseStatus)
+
+    return (
+        <List.Item.Detail
+            markdown={getMeetingMarkdown(meeting)}
+            metadata={
+                <List.Item.Detail.Metadata>
+                    <List.Item.Detail.Metadata.Label
+                        title="When"
+                        text={`${meeting.parsedDate.toLocaleDateString()} ${meeting.timeDisplay}`}
+                    />
+                    {meeting.organizer && (
+                        <List.Item.Detail.Metadata.Label title="Organizer" text={meeting.organizer} />
+                    )}
+                    {meeting.location && <List.Item.Detail.Metadata.Label title="Location" text={meeting.location} />}
+                    {responseTag && (
+                        <List.Item.Detail.Metadata.TagList title="Response">
+                            <List.Item.Detail.Metadata.TagList.Item
+                                text={responseTag.value}
+                                color={responseTag.color}
+                            />
+                        </List.Item.Detail.Metadata.TagList>
+                    )}
+                    {meeting.requiredAttendees && (
+                        <List.Item.Detail.Metadata.Label
+                            title={`Required (${meeting.requiredAttendees.length})`}
+                            text={meeting.requiredAttendees.join(", ")}
+                        />
+                    )}
+                    {meeting.optionalAttendees && (
+                        <List.Item.Detail.Metadata.Label
+                            title={`Optional (${meeting.optionalAttendees.length})`}
+                            text={meeting.optionalAttendees.join(", ")}
+                        />
+                    )}
+                    <List.Item.Detail.Metadata.Separator />
+                    <List.Item.Detail.Metadata.Label title="Provider" text={getProviderName(meeting.provider)} />
+                    <List.Item.Detail.Metadata.Label title="Source" text={meeting.source} />
+                </List.Item.Detail.Metadata>
+            }
+        />
+    )
+}
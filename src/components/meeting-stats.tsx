@@ -0,0 +1,167 @@
+import {
+    Action,
+    ActionPanel,
+    Color,
+    getPreferenceValues,
+    Icon,
+    List,
+    showInFinder,
+    showToast,
+    Toast,
+} from "@raycast/api"
+import { useEffect, useState } from "react"
+import { formatFileDate, saveToDownloads } from "../lib/downloads"
+import { JoinRecord } from "../lib/history"
+import { formatDuration, formatTime } from "../lib/meetings"
+import { Preferences } from "../lib/preferences"
+import { filterDeclinedMeetings, filterHiddenMeetings, getMeetingRules } from "../lib/rules"
+import { getCachedMeetingList, getMeetingSources, getPreferencesWindow } from "../lib/sources"
+import { formatStatsCsv, getMeetingStats, MeetingStats, PeriodStats } from "../lib/stats"
+
+// Function to describe the time spent in meetings, e.g. "3 h 20 min"
+function formatBusyTime(period: PeriodStats): string {
+    return period.busyMs > 0 ? formatDuration(period.busyMs) : "No meetings"
+}
+
+// Function to describe the number of meetings, e.g. "4 meetings"
+function formatMeetingCount(count: number): string {
+    return `${count} ${count === 1 ? "meeting" : "meetings"}`
+}
+
+/**
+ * Shows hours in meetings per day and week, the most frequent meetings and back-to-back streaks, computed from the
+ * join history and the loaded schedule.
+ * @param props.history The join history
+ */
+export function MeetingStatsList(props: { history: JoinRecord[] }) {
+    const [stats, setStats] = useState<MeetingStats | undefined>()
+    const [isLoading, setIsLoading] = useState(true)
+    const now = new Date()
+
+    // useEffect with an empty dependency array runs only once on mount
+    useEffect(() => {
+        const preferences = getPreferenceValues<Preferences>()
+        const window = getPreferencesWindow(preferences)
+        // Only the meetings cached by the last load are used, so no source is refreshed or signed in to
+        const meetings = getCachedMeetingList(getMeetingSources(preferences))
+        getMeetingRules()
+            .then(rules => {
+                const busyMeetings = filterHiddenMeetings(filterDeclinedMeetings(meetings), rules)
+                setStats(getMeetingStats(props.history, busyMeetings, new Date(), window.end))
+            })
+            .catch(async error => {
+                console.error("Failed to compute meeting statistics:", error)
+                await showToast({
+                    style: Toast.Style.Failure,
+                    title: "Failed to Load Statistics",
+                    message: error instanceof Error ? error.message : String(error),
+                })
+            })
+            .finally(() => setIsLoading(false))
+    }, [])
+
+    // Function to save the statistics as CSV in the Downloads folder
+    const exportCsv = async (current: MeetingStats) => {
+        try {
+            const filePath = await saveToDownloads(`meeting-stats-${formatFileDate(now)}.csv`, formatStatsCsv(current))
+            await showToast({
+                style: Toast.Style.Success,
+                title: "Statistics Exported",
+                message: filePath,
+                primaryAction: { title: "Show File", onAction: () => showInFinder(filePath) },
+            })
+        } catch (error) {
+            await showToast({
+                style: Toast.Style.Failure,
+                title: "Failed to Export Statistics",
+                message: error instanceof Error ? error.message : String(error),
+            })
+        }
+    }
+
+    const actions = stats && (
+        <ActionPanel>
+            <Action title="Export Statistics as Spreadsheet" icon={Icon.Download} onAction={() => exportCsv(stats)} />
+        </ActionPanel>
+    )
+
+    return (
+        <List isLoading={isLoading} navigationTitle="Meeting Statistics" searchBarPlaceholder="Filter statistics...">
+            {stats && (
+                <>
+                    <List.Section title="Days">
+                        {stats.days.map(day => (
+                            <List.Item
+                                key={day.start.toISOString()}
+                                title={day.start.toLocaleDateString([], {
+                                    weekday: "long",
+                                    month: "short",
+                                    day: "numeric",
+                                })}
+                                subtitle={formatMeetingCount(day.meetings)}
+                                icon={{
+                                    source: Icon.Calendar,
+                                    tintColor: day.start > now ? Color.SecondaryText : Color.PrimaryText,
+                                }}
+                                accessories={[
+                                    ...(day.start.toDateString() === now.toDateString() ? [{ tag: "Today" }] : []),
+                                    { text: formatBusyTime(day) },
+                                ]}
+                                actions={actions}
+                            />
+                        ))}
+                    </List.Section>
+                    <List.Section title="Weeks">
+                        {stats.weeks.map(week => (
+                            <List.Item
+                                key={week.start.toISOString()}
+                                title={`Week of ${week.start.toLocaleDateString([], { month: "short", day: "numeric" })}`}
+                                subtitle={formatMeetingCount(week.meetings)}
+                                icon={Icon.BarChart}
+                                accessories={[
+                                    ...(now >= week.start && now < week.end ? [{ tag: "This Week" }] : []),
+                                    { text: formatBusyTime(week) },
+                                ]}
+                                actions={actions}
+                            />
+                        ))}
+                    </List.Section>
+                    <List.Section title="Most Frequent Meetings">
+                        {stats.frequent.map(meeting => (
+                            <List.Item
+                                key={meeting.subject}
+                                title={meeting.subject}
+                                subtitle={`${meeting.count}×`}
+                                icon={Icon.Repeat}
+                                accessories={[{ text: formatDuration(meeting.totalMs), tooltip: "Total time" }]}
+                                actions={actions}
+                            />
+                        ))}
+                    </List.Section>
+                    <List.Section title="Back-to-Back Streaks">
+                        {stats.streaks.map(streak => (
+                            <List.Item
+                                key={streak.start.toISOString()}
+                                title={`${streak.subjects.length} meetings in a row`}
+                                subtitle={`${streak.start.toLocaleDateString([], {
+                                    weekday: "short",
+                                    month: "short",
+                                    day: "numeric",
+                                })}, ${formatTime(streak.start)}–${formatTime(streak.end)}`}
+                                icon={{ source: Icon.Bolt, tintColor: Color.Orange }}
+                                keywords={streak.subjects}
+                                accessories={[
+                                    {
+                                        text: formatDuration(streak.end.getTime() - streak.start.getTime()),
+                                        tooltip: streak.subjects.join(" → "),
+                                    },
+                                ]}
+                                actions={actions}
+                            />
+                        ))}
+                    </List.Section>
+                </>
+            )}
+        </List>
+    )
+}
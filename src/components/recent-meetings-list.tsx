@@ -0,0 +1,92 @@
+import { Action, ActionPanel, getPreferenceValues, Icon, List, showHUD, showToast, Toast } from "@raycast/api"
+import { getFavicon } from "@raycast/utils"
+import { useState } from "react"
+import { AD_HOC_SOURCE, addRecentMeeting, RecentMeeting, removeRecentMeeting } from "../lib/adhoc"
+import { openTeamsLink } from "../lib/join"
+import { JoinTarget } from "../lib/launcher"
+import { getProviderName } from "../lib/links"
+import { getJoinSettings, Preferences } from "../lib/preferences"
+
+/**
+ * Lists the meetings recently joined by link or ID to join them again.
+ * @param props.meetings The recently joined meetings, most recent first
+ * @param props.onChange Called with the updated list after a meeting was joined or removed
+ */
+export function RecentMeetingsList(props: {
+    meetings: RecentMeeting[]
+    onChange: (meetings: RecentMeeting[]) => void
+}) {
+    const [meetings, setMeetings] = useState(props.meetings)
+
+    // Function to show and report an updated list
+    const update = (updated: RecentMeeting[]) => {
+        setMeetings(updated)
+        props.onChange(updated)
+    }
+
+    // Function to join a meeting again, moving it to the top of the list
+    const join = async (meeting: RecentMeeting, target?: JoinTarget) => {
+        const joined = { subject: meeting.title, source: AD_HOC_SOURCE }
+        if (await openTeamsLink(meeting.url, joined, getJoinSettings(getPreferenceValues<Preferences>()), target)) {
+            update(await addRecentMeeting(meeting, meeting.title))
+            await showHUD(`Joining ${meeting.title}`)
+        }
+    }
+
+    // Function to remove a meeting from the list
+    const remove = async (meeting: RecentMeeting) => {
+        update(await removeRecentMeeting(meeting.url))
+        await showToast({ style: Toast.Style.Success, title: "Meeting Removed", message: meeting.title })
+    }
+
+    return (
+        <List navigationTitle="Recent Meetings" searchBarPlaceholder="Filter recent meetings...">
+            {meetings.map(meeting => (
+                <List.Item
+                    key={meeting.url}
+                    title={meeting.title}
+                    subtitle={meeting.url}
+                    icon={getFavicon(meeting.url, { fallback: Icon.Video })}
+                    accessories={[{ date: new Date(meeting.joinedAt), tooltip: "Last joined" }]}
+                    actions={
+                        <ActionPanel>
+                            <Action
+                                title={`Join ${getProviderName(meeting.provider)} Meeting`}
+                                icon={Icon.Video}
+                                onAction={() => join(meeting)}
+                            />
+                            <Action
+                                title="Join in Browser"
+                                icon={Icon.Globe}
+                                onAction={() => join(meeting, JoinTarget.Browser)}
+                            />
+                            <Action.CopyToClipboard
+                                title="Copy Meeting Link"
+                                content={meeting.url}
+                                shortcut={{
+                                    macOS: { modifiers: ["cmd"], key: "c" },
+                                    windows: { modifiers: ["ctrl"], key: "c" },
+                                }}
+                            />
+                            <Action
+                                title="Remove from Recent Meetings"
+                                icon={Icon.Trash}
+                                style={Action.Style.Destructive}
+                                onAction={() => remove(meeting)}
+                                shortcut={{
+                                    macOS: { modifiers: ["ctrl"], key: "x" },
+                                    windows: { modifiers: ["ctrl", "shift"], key: "x" },
+                                }}
+                            />
+                        </ActionPanel>
+                    }
+                />
+            ))}
+            <List.EmptyView
+                title="No Recent Meetings"
+                description="Meetings you join by link or meeting ID are listed here."
+                icon={Icon.Clock}
+            />
+        </List>
+    )
+}
@@ -0,0 +1,109 @@
+import { Action, ActionPanel, Color, Detail, Icon, showToast, Toast } from "@raycast/api"
+import { useEffect, useState } from "react"
+import { getLastRefreshLog, RefreshLog, RefreshOutcome } from "../lib/powershell"
+
+// Function to get the label and color shown for a refresh outcome
+function getOutcomeTag(outcome: RefreshOutcome): { text: string; color: Color } {
+    switch (outcome) {
+        case RefreshOutcome.Success:
+            return { text: "Success", color: Color.Green }
+        case RefreshOutcome.TimedOut:
+            return { text: "Timed Out", color: Color.Orange }
+        case RefreshOutcome.Cancelled:
+            return { text: "Cancelled", color: Color.SecondaryText }
+        default:
+            return { text: "Failed", color: Color.Red }
+    }
+}
+
+// Renders the captured output of a refresh as Markdown
+function getLogMarkdown(log: RefreshLog): string {
+    const sections = ["# Last Refresh Log"]
+    if (log.error) {
+        sections.push(`**Error:** ${log.error}`)
+    }
+    sections.push("## Output", "```\n" + (log.stdout.trim() || "(no output)") + "\n```")
+    sections.push("## Errors", "```\n" + (log.stderr.trim() || "(no errors)") + "\n```")
+    return sections.join("\n\n")
+}
+
+/**
+ * Shows the output, duration and resolved script path of the most recent PowerShell refresh.
+ */
+export function RefreshLogDetail() {
+    const [log, setLog] = useState<RefreshLog>()
+    const [isLoading, setIsLoading] = useState(true)
+
+    useEffect(() => {
+        getLastRefreshLog()
+            .then(setLog)
+            .catch(async error => {
+                console.error("Failed to read the refresh log:", error)
+                await showToast({
+                    style: Toast.Style.Failure,
+                    title: "Failed to Read Refresh Log",
+                    message: error instanceof Error ? error.message : String(error),
+                })
+            })
+            .finally(() => setIsLoading(false))
+    }, [])
+
+    if (!log) {
+        return (
+            <Detail
+                isLoading={isLoading}
+                markdown={isLoading ? "" : "# No Refresh Yet\n\nThe PowerShell script has not been run yet."}
+            />
+        )
+    }
+
+    const outcome = getOutcomeTag(log.outcome)
+    const fullLog = [
+        `Started: ${log.startedAt}`,
+        `Duration: ${(log.durationMs / 1000).toFixed(1)}s`,
+        `Script: ${log.scriptPath}`,
+        `Function: ${log.functionName}`,
+        `Parameters: -OutputPath "${log.parameters.outputPath}" -DaysAhead ${log.parameters.daysAhead} -DaysBehind ${log.parameters.daysBehind}`,
+        `Outcome: ${outcome.text}`,
+        `Exit code: ${log.exitCode ?? "none"}`,
+        log.error ? `Error: ${log.error}` : "",
+        "",
+        "--- stdout ---",
+        log.stdout,
+        "--- stderr ---",
+        log.stderr,
+    ].join("\n")
+
+    return (
+        <Detail
+            markdown={getLogMarkdown(log)}
+            metadata={
+                <Detail.Metadata>
+                    <Detail.Metadata.TagList title="Outcome">
+                        <Detail.Metadata.TagList.Item text={outcome.text} color={outcome.color} />
+                    </Detail.Metadata.TagList>
+                    <Detail.Metadata.Label title="Started" text={new Date(log.startedAt).toLocaleString()} />
+                    <Detail.Metadata.Label title="Duration" text={`${(log.durationMs / 1000).toFixed(1)} s`} />
+                    <Detail.Metadata.Label
+                        title="Exit Code"
+                        text={log.exitCode === null ? "—" : String(log.exitCode)}
+                    />
+                    <Detail.Metadata.Separator />
+                    <Detail.Metadata.Label title="Script Path" text={log.scriptPath || "—"} />
+                    <Detail.Metadata.Label title="Function" text={log.functionName} />
+                    <Detail.Metadata.Label title="Output Path" text={log.parameters.outputPath} />
+                    <Detail.Metadata.Label
+                        title="Days"
+                        text={`${log.parameters.daysBehind} behind, ${log.parameters.daysAhead} ahead`}
+                    />
+                </Detail.Metadata>
+            }
+            actions={
+                <ActionPanel>
+                    <Action.CopyToClipboard title="Copy Log" content={fullLog} icon={Icon.CopyClipboard} />
+                    {log.scriptPath && <Action.ShowInFinder title="Show Script" path={log.scriptPath} />}
+                </ActionPanel>
+            }
+        />
+    )
+}
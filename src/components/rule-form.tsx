@@ -0,0 +1,96 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { addSubjectRule, MeetingRule, RuleAction, updateMeetingRule } from "../lib/rules"
+
+/**
+ * Gets the name of a rule action as shown in forms and section titles.
+ * @param action The action
+ * @returns string The name (e.g. "Hide")
+ */
+export function getRuleActionName(action: RuleAction): string {
+    switch (action) {
+        case RuleAction.Pin:
+            return "Pin"
+        case RuleAction.Mute:
+            return "Mute Reminders"
+        default:
+            return "Hide"
+    }
+}
+
+/**
+ * Gets the icon of a rule action.
+ * @param action The action
+ * @returns Icon The icon
+ */
+export function getRuleActionIcon(action: RuleAction): Icon {
+    switch (action) {
+        case RuleAction.Pin:
+            return Icon.Pin
+        case RuleAction.Mute:
+            return Icon.BellDisabled
+        default:
+            return Icon.EyeDisabled
+    }
+}
+
+/**
+ * Form to create a rule for every meeting whose subject contains a text, or to edit such a rule.
+ */
+export function RuleForm(props: { rule?: MeetingRule; subject?: string; onSave: (rules: MeetingRule[]) => void }) {
+    const { rule, subject, onSave } = props
+    const { pop } = useNavigation()
+    const [patternError, setPatternError] = useState<string | undefined>()
+
+    // Function to save the rule and go back
+    const submit = async (values: { action: string; subjectPattern: string }) => {
+        const subjectPattern = values.subjectPattern.trim()
+        if (subjectPattern === "") {
+            setPatternError("Enter a text to look for in meeting subjects")
+            return
+        }
+
+        const action = values.action as RuleAction
+        const rules = rule
+            ? await updateMeetingRule({ ...rule, action, subjectPattern })
+            : await addSubjectRule(action, subjectPattern)
+        onSave(rules)
+        await showToast({
+            style: Toast.Style.Success,
+            title: rule ? "Rule Updated" : "Rule Added",
+            message: `${getRuleActionName(action)}: subject contains "${subjectPattern}"`,
+        })
+        pop()
+    }
+
+    return (
+        <Form
+            navigationTitle={rule ? "Edit Rule" : "Add Rule"}
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title="Save Rule" icon={Icon.Check} onSubmit={submit} />
+                </ActionPanel>
+            }
+        >
+            <Form.Dropdown id="action" title="Action" defaultValue={rule?.action ?? RuleAction.Hide}>
+                {[RuleAction.Hide, RuleAction.Pin, RuleAction.Mute].map(action => (
+                    <Form.Dropdown.Item
+                        key={action}
+                        title={getRuleActionName(action)}
+                        value={action}
+                        icon={getRuleActionIcon(action)}
+                    />
+                ))}
+            </Form.Dropdown>
+            <Form.TextField
+                id="subjectPattern"
+                title="Subject Contains"
+                placeholder="e.g. Focus time"
+                defaultValue={rule?.subjectPattern ?? subject}
+                error={patternError}
+                onChange={() => setPatternError(undefined)}
+            />
+            <Form.Description text="The rule applies to every meeting whose subject contains this text, ignoring case. Pinned meetings are never hidden." />
+        </Form>
+    )
+}
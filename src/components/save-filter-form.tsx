@@ -0,0 +1,51 @@
+import { Action, ActionPanel, Form, Icon, showToast, Toast, useNavigation } from "@raycast/api"
+import { useState } from "react"
+import { FilterOption, FilterPreset, saveFilterPreset } from "../lib/filters"
+
+/**
+ * Form to save the current filter option and search query as a named preset.
+ */
+export function SaveFilterForm(props: {
+    filter: FilterOption
+    filterTitle: string
+    query: string
+    onSave: (preset: FilterPreset) => void
+}) {
+    const { filter, filterTitle, query, onSave } = props
+    const { pop } = useNavigation()
+    const [nameError, setNameError] = useState<string | undefined>()
+
+    // Function to save the preset and go back
+    const submit = async (values: { name: string }) => {
+        if (values.name.trim() === "") {
+            setNameError("Enter a name for the filter")
+            return
+        }
+
+        const preset = await saveFilterPreset(values.name, filter, query)
+        onSave(preset)
+        await showToast({ style: Toast.Style.Success, title: "Filter Saved", message: preset.name })
+        pop()
+    }
+
+    return (
+        <Form
+            navigationTitle="Save Filter"
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm title="Save Filter" icon={Icon.SaveDocument} onSubmit={submit} />
+                </ActionPanel>
+            }
+        >
+            <Form.TextField
+                id="name"
+                title="Name"
+                placeholder="e.g. Zoom This Week"
+                error={nameError}
+                onChange={() => setNameError(undefined)}
+            />
+            <Form.Description title="Meetings" text={filterTitle} />
+            <Form.Description title="Search" text={query.trim() || "(none)"} />
+        </Form>
+    )
+}
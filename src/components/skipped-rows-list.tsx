@@ -0,0 +1,36 @@
+import { Action, ActionPanel, Color, Icon, List } from "@raycast/api"
+import { SourceResult } from "../lib/sources"
+
+/**
+ * Lists the rows of the meetings files that were rejected, with their line numbers and reasons.
+ */
+export function SkippedRowsList(props: { results: SourceResult[] }) {
+    const results = props.results.filter(result => result.skippedRows && result.skippedRows.length > 0)
+
+    return (
+        <List navigationTitle="Skipped Rows" searchBarPlaceholder="Filter skipped rows...">
+            {results.map(({ source, skippedRows = [] }) => (
+                <List.Section key={source.id} title={source.name} subtitle={source.location}>
+                    {skippedRows.map(row => (
+                        <List.Item
+                            key={row.line}
+                            title={`Line ${row.line}`}
+                            subtitle={row.reason}
+                            icon={{ source: Icon.XMarkCircle, tintColor: Color.Orange }}
+                            actions={
+                                <ActionPanel>
+                                    <Action.CopyToClipboard
+                                        title="Copy Reason"
+                                        content={`${source.location}:${row.line}: ${row.reason}`}
+                                    />
+                                    <Action.Open title="Open Meetings File" target={source.location} />
+                                </ActionPanel>
+                            }
+                        />
+                    ))}
+                </List.Section>
+            ))}
+            <List.EmptyView title="No Skipped Rows" description="Every row of the meetings files was loaded." />
+        </List>
+    )
+}
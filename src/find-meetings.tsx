@@ -1,90 +1,79 @@
 import {
     Action,
     ActionPanel,
+    Color,
     Icon,
     List,
     showToast,
     Toast,
     getPreferenceValues,
     Clipboard,
-    environment,
+    LaunchProps,
+    open,
+    showInFinder,
 } from "@raycast/api"
-import { useEffect, useState } from "react"
-import { homedir } from "os"
-import { readFile, stat, access } from "fs/promises"
-import { exec } from "child_process"
-import { constants } from "fs"
-import { promisify } from "util"
-import { join } from "path"
-
-const execAsync = promisify(exec)
-
-/**
- * Checks if a file exists
- * @param filePath Path to the file to check
- * @returns Promise<boolean> True if file exists and is accessible
- */
-async function fileExists(filePath: string): Promise<boolean> {
-    try {
-        await access(filePath, constants.F_OK)
-        return true
-    } catch {
-        return false
-    }
-}
-
-/**
- * Checks if a file is older than the specified number of hours
- * @param filePath Path to the file to check
- * @param hours Number of hours to check against (0 disables check)
- * @returns Promise<boolean> True if file is older than specified hours or doesn't exist
- */
-async function isFileOlderThanHours(filePath: string, hours: number): Promise<boolean> {
-    // If hours is 0 or negative, auto-refresh is disabled
-    if (hours <= 0) {
-        return false
-    }
-
-    try {
-        const stats = await stat(filePath)
-        const fileAge = Date.now() - stats.mtime.getTime()
-        const thresholdMs = hours * 60 * 60 * 1000 // Convert hours to milliseconds
-        return fileAge > thresholdMs
-    } catch (error) {
-        // If file doesn't exist or can't be accessed, consider it "old"
-        return true
-    }
-}
-
-// Meeting status enum
-enum MeetingStatus {
-    Ended = "ended",
-    Active = "active",
-    Upcoming = "upcoming",
-}
-
-// Function to determine meeting status based on start/end times
-function getMeetingStatus(startDate: Date, endDate?: Date): MeetingStatus {
-    const now = new Date()
-    const fiveMinuteBuffer = 5 * 60 * 1000 // 5 minutes in milliseconds
-
-    if (endDate && now > endDate) {
-        return MeetingStatus.Ended
-    }
-
-    // Consider meeting active if we're within 5 minutes of start time or after start time
-    if (now >= new Date(startDate.getTime() - fiveMinuteBuffer)) {
-        if (endDate) {
-            return now <= endDate ? MeetingStatus.Active : MeetingStatus.Ended
-        } else {
-            // If no end time, assume meeting is active for 1 hour after start
-            const assumedEndTime = new Date(startDate.getTime() + 60 * 60 * 1000)
-            return now <= assumedEndTime ? MeetingStatus.Active : MeetingStatus.Ended
-        }
-    }
+import { getFavicon, useCachedState } from "@raycast/utils"
+import { basename } from "path"
+import { useEffect, useRef, useState } from "react"
+import { FreeSlotsList } from "./components/free-slots-list"
+import { ManageRules } from "./components/manage-rules"
+import { getResponseTag, MeetingDetail } from "./components/meeting-detail"
+import { RefreshLogDetail } from "./components/refresh-log-detail"
+import { RuleForm } from "./components/rule-form"
+import { SaveFilterForm } from "./components/save-filter-form"
+import { SkippedRowsList } from "./components/skipped-rows-list"
+import {
+    AgendaSection,
+    createIcsCalendar,
+    formatAgendaMarkdown,
+    formatAgendaText,
+    formatInvitationText,
+} from "./lib/agenda"
+import { formatFileDate, saveToDownloads } from "./lib/downloads"
+import {
+    FilterOption,
+    FilterPreset,
+    getFilterPresets,
+    getFilterRange,
+    matchesSearchQuery,
+    parseSearchQuery,
+    removeFilterPreset,
+} from "./lib/filters"
+import { signOutOfGraph } from "./lib/graph"
+import { getJoinedMeeting } from "./lib/history"
+import { FindMeetingsLaunchContext, openTeamsLink } from "./lib/join"
+import { JoinTarget } from "./lib/launcher"
+import { getProviderName, MeetingProvider } from "./lib/links"
+import { getMeetingCountdown, getMeetingKey, getMeetingStatus, MeetingInfo, MeetingStatus } from "./lib/meetings"
+import { createMeetingNote, getNoteFileName, getNoteFileNames } from "./lib/notes"
+import { getEarlyJoinMinutes, getJoinSettings, getNoteSettings, getWorkingHours, Preferences } from "./lib/preferences"
+import {
+    getAutoJoinMeetingKeys,
+    matchesSubjectPattern,
+    parseSubjectPatterns,
+    setMeetingAutoJoin,
+} from "./lib/reminders"
+import {
+    filterDeclinedMeetings,
+    filterHiddenMeetings,
+    getMeetingRules,
+    getRuleState,
+    hasMeetingRule,
+    MeetingRule,
+    RuleAction,
+    setMeetingRule,
+} from "./lib/rules"
+import { findConflicts, getDaySummary } from "./lib/schedule"
+import {
+    getCachedMeetingList,
+    getMeetingSources,
+    getPreferencesWindow,
+    loadFromSources,
+    SourceResult,
+} from "./lib/sources"
 
-    return MeetingStatus.Upcoming
-}
+// How often statuses and countdowns are re-evaluated while the list is open
+const CLOCK_TICK_MS = 15 * 1000
 
 // Function to get appropriate icon for meeting status
 function getStatusIcon(status: MeetingStatus): Icon {
@@ -114,15 +103,40 @@ function getStatusAccessory(status: MeetingStatus): { text: string; tooltip: str
     }
 }
 
-// Interface for storing meeting information
-interface MeetingInfo {
-    StartTime: string
-    Subject: string
-    TeamsLink: string
-    parsedDate: Date
-    endDate?: Date
-    timeDisplay: string
-    status: MeetingStatus
+// Function to get the ticking "starts in"/"ends in" accessory (none for ended or far-off meetings)
+function getCountdownAccessory(meeting: MeetingInfo, now: Date): List.Item.Accessory[] {
+    const countdown = getMeetingCountdown(meeting, now)
+    return countdown ? [{ text: countdown, icon: Icon.Clock, tooltip: `Meeting ${countdown}` }] : []
+}
+
+// Function to get the accepted/tentative/declined accessory
+function getResponseAccessory(meeting: MeetingInfo): List.Item.Accessory[] {
+    const tag = getResponseTag(meeting.responseStatus)
+    return tag ? [{ tag, tooltip: `You responded: ${tag.value}` }] : []
+}
+
+// Longest subject shown in a conflict tag before it is shortened
+const MAX_CONFLICT_SUBJECT_LENGTH = 24
+
+// Function to get the accessory naming the meetings that overlap with a meeting
+function getConflictAccessory(others: MeetingInfo[] = []): List.Item.Accessory[] {
+    if (others.length === 0) {
+        return []
+    }
+    const [first] = others
+    const subject =
+        first.Subject.length > MAX_CONFLICT_SUBJECT_LENGTH
+            ? `${first.Subject.slice(0, MAX_CONFLICT_SUBJECT_LENGTH - 1).trimEnd()}…`
+            : first.Subject
+    return [
+        {
+            tag: {
+                value: others.length === 1 ? `Conflict: ${subject}` : `${others.length} Conflicts`,
+                color: Color.Red,
+            },
+            tooltip: `Overlaps with ${others.map(other => `${other.Subject} (${other.timeDisplay})`).join(", ")}`,
+        },
+    ]
 }
 
 // Interface for grouped meetings by date
@@ -130,306 +144,206 @@ interface GroupedMeetings {
     [dateKey: string]: MeetingInfo[]
 }
 
-// Interface for the extension's preferences
-interface Preferences {
-    meetingsFilePath?: string
-    powershellScriptPath?: string
-    powershellFunctionName?: string
-    autoRefreshHours?: string
+// Titles of the filter options in the dropdown
+const FILTER_TITLES: Record<FilterOption, string> = {
+    [FilterOption.All]: "All Meetings",
+    [FilterOption.IncludingHidden]: "All Meetings (Including Hidden)",
+    [FilterOption.UpcomingAndActive]: "Upcoming & Active",
+    [FilterOption.Today]: "Today",
+    [FilterOption.Tomorrow]: "Tomorrow",
+    [FilterOption.ThisWeek]: "This Week",
+    [FilterOption.Next7Days]: "Next 7 Days",
+    [FilterOption.Selected]: "Overlapping Meetings",
 }
 
-// Filter options for meetings
-enum FilterOption {
-    All = "all",
-    UpcomingAndActive = "upcoming-active",
+// Site whose favicon represents each provider
+const PROVIDER_SITES: Record<MeetingProvider, string> = {
+    [MeetingProvider.Teams]: "https://teams.microsoft.com",
+    [MeetingProvider.Zoom]: "https://zoom.us",
+    [MeetingProvider.GoogleMeet]: "https://meet.google.com",
+    [MeetingProvider.Webex]: "https://www.webex.com",
+    [MeetingProvider.Other]: "",
 }
 
-/**
- * Opens the Teams link in the desktop client using the Windows 'start' command.
- * @param url The original https Teams meeting URL.
- */
-async function openTeamsLink(url: string) {
-    const teamsUrl = url.replace("https://", "msteams://")
-
-    try {
-        // The 'start' command is a reliable way to open custom URL protocols on Windows.
-        // The empty "" argument is a necessary quirk to handle URLs correctly.
-        await execAsync(`start "" "${teamsUrl}"`)
-    } catch (error) {
-        await showToast({
-            style: Toast.Style.Failure,
-            title: "Failed to Open Link",
-            message: `Could not open the Teams link. Please ensure Teams is installed.`,
-        })
+// Function to get the provider icon/accessory
+function getProviderAccessory(provider: MeetingProvider): List.Item.Accessory {
+    const site = PROVIDER_SITES[provider]
+    return {
+        icon: site ? getFavicon(site, { fallback: Icon.Video }) : Icon.Globe,
+        tooltip: `${getProviderName(provider)} meeting`,
     }
 }
 
-/**
- * Executes a PowerShell function to refresh the meetings CSV file.
- * @param scriptPath Path to the PowerShell script (if empty, uses bundled script)
- * @param functionName Name of the PowerShell function to execute (if empty, uses 'extract-meetings')
- */
-async function refreshMeetingsWithPowerShell(scriptPath: string, functionName: string) {
-    // Use bundled script if no custom path provided
-    let expandedScriptPath: string
-    if (!scriptPath || scriptPath.trim() === "") {
-        // Try multiple locations for the bundled script
-        const possiblePaths = [
-            join(environment.assetsPath, "extract_teams_meetings.ps1"),
-            join(environment.assetsPath, "..", "extract_teams_meetings.ps1"),
-            join(environment.assetsPath, "..", "..", "extract_teams_meetings.ps1"),
-        ]
-
-        console.log("Looking for bundled PowerShell script in:", possiblePaths)
-
-        // Check which path exists
-        let foundPath: string | null = null
-        for (const path of possiblePaths) {
-            if (await fileExists(path)) {
-                foundPath = path
-                console.log("Found bundled script at:", path)
-                break
-            }
-        }
-
-        if (!foundPath) {
-            const errorMsg = `Bundled PowerShell script not found. Searched in: ${possiblePaths.join(", ")}`
-            console.error(errorMsg)
-            throw new Error(errorMsg)
+export default function Command(props: LaunchProps<{ launchContext?: FindMeetingsLaunchContext }>) {
+    const selectedKeys = props.launchContext?.meetingKeys
+    const preferences = getPreferenceValues<Preferences>()
+    const sources = getMeetingSources(preferences)
+    // Start with the meetings of the last load, which are revalidated in the background
+    const [meetings, setMeetings] = useState<MeetingInfo[]>(() => getCachedMeetingList(sources))
+    const [failedSources, setFailedSources] = useState<SourceResult[]>([])
+    // Sources with rows that could not be parsed
+    const [skippedSources, setSkippedSources] = useState<SourceResult[]>([])
+    // Names of the sources whose meetings are outdated (e.g. because refreshing them failed)
+    const [staleSources, setStaleSources] = useState<string[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    // The selected dropdown value (a filter option or the id of a saved filter), kept between launches
+    const [storedFilter, setStoredFilter] = useCachedState<string>("filter", FilterOption.All)
+    const [filter, setFilter] = useState<string>(selectedKeys ? FilterOption.Selected : storedFilter)
+    const [presets, setPresets] = useState<FilterPreset[]>([])
+    const [searchText, setSearchText] = useState("")
+    // Current time, ticking so statuses and countdowns stay live while the view is open
+    const [now, setNow] = useState(() => new Date())
+    // Aborted when the command is closed, which kills a running PowerShell refresh
+    const abortController = useRef(new AbortController())
+    // Source tags are only useful when meetings come from more than one source
+    const showSourceTags = sources.length > 1
+    // Only offer the PowerShell refresh when a source can be refreshed with it
+    const canRefresh = sources.some(source => source.refresh)
+    const usesGraph = sources.some(source => source.id === "graph")
+    const earlyJoinMinutes = getEarlyJoinMinutes(preferences)
+    const autoJoinPatterns = parseSubjectPatterns(preferences.autoJoinSubjects || "")
+    // Meetings marked with the "Auto-join This Meeting" action
+    const [autoJoinKeys, setAutoJoinKeys] = useState<string[]>([])
+    const [showDetail, setShowDetail] = useState(false)
+    // Declined meetings are hidden unless the user chooses to show them
+    const [showDeclined, setShowDeclined] = useState(false)
+    // Pin, hide and mute rules
+    const [rules, setRules] = useState<MeetingRule[]>([])
+    // File names in the notes folder, to show which meetings have notes
+    const [noteFiles, setNoteFiles] = useState<Set<string>>(new Set())
+    const noteSettings = getNoteSettings(preferences)
+
+    // Derive each meeting's status from the current time
+    const getStatus = (meeting: MeetingInfo) =>
+        getMeetingStatus(meeting.parsedDate, meeting.endDate, now, earlyJoinMinutes)
+
+    // Function to select a filter; the overlapping meetings passed by Join Next Meeting are never remembered
+    const selectFilter = (value: string) => {
+        setFilter(value)
+        if (value !== FilterOption.Selected) {
+            setStoredFilter(value)
         }
-
-        expandedScriptPath = foundPath
-    } else {
-        // Expand tilde in custom script path if present
-        expandedScriptPath = scriptPath.replace("~", homedir())
     }
 
-    // Use default function name if not provided
-    const actualFunctionName = !functionName || functionName.trim() === "" ? "extract-meetings" : functionName
-
-    // Build PowerShell command to source the script and call the function
-    const psCommand = `powershell.exe -ExecutionPolicy Bypass -Command "& { . '${expandedScriptPath}'; ${actualFunctionName} }"`
-
-    console.log("Executing PowerShell command:", psCommand)
-    console.log("Script path:", expandedScriptPath)
-    console.log("Function name:", actualFunctionName)
-
-    const { stdout, stderr } = await execAsync(psCommand)
-
-    console.log("PowerShell stdout:", stdout)
-    if (stderr) {
-        console.error("PowerShell stderr:", stderr)
-    }
-
-    await showToast({
-        style: Toast.Style.Success,
-        title: "Meetings Refreshed",
-        message: "Successfully updated meetings from PowerShell script",
-    })
-}
-
-// Fetches meetings from the specified CSV file path.
-async function fetchMeetings(filePath: string): Promise<MeetingInfo[]> {
-    try {
-        const fileContent = await readFile(filePath, "utf-8")
-
-        // Parse the CSV content
-        const meetings: MeetingInfo[] = fileContent
-            .trim()
-            .split(/\r?\n/)
-            .slice(1) // Skip header row
-            .map(line => {
-                const parts = line.split(";")
-
-                // Try parsing the date with different strategies
-                let parsedDate = new Date(parts[0])
-
-                // If that fails, try parsing common formats like "DD/MM/YYYY HH:MM" or "DD, MM, YYYY HH:MM"
-                if (isNaN(parsedDate.getTime())) {
-                    // Handle formats like "28, 08, 2025 14:30" or "28/08/2025 14:30"
-                    const dateTimeStr = parts[0].replace(/,/g, "/") // Replace commas with slashes
-                    parsedDate = new Date(dateTimeStr)
-
-                    // If still invalid, try swapping day/month for DD/MM/YYYY format
-                    if (isNaN(parsedDate.getTime())) {
-                        const match = parts[0].match(/(\d{1,2})[,/]\s*(\d{1,2})[,/]\s*(\d{4})(?:\s+(\d{1,2}):(\d{2}))?/)
-                        if (match) {
-                            const [, day, month, year, hour = "0", minute = "0"] = match
-                            parsedDate = new Date(
-                                parseInt(year),
-                                parseInt(month) - 1,
-                                parseInt(day),
-                                parseInt(hour),
-                                parseInt(minute),
-                            )
-                        }
-                    }
-                }
-
-                const isValidDate = !isNaN(parsedDate.getTime())
-                const validParsedDate = isValidDate ? parsedDate : new Date()
-
-                // Calculate end date (assume 1 hour duration if not provided)
-                // You could extend this to parse end time from CSV if available
-                const endDate = new Date(validParsedDate.getTime() + 60 * 60 * 1000)
-
-                return {
-                    StartTime: parts[0],
-                    Subject: parts[1],
-                    TeamsLink: parts[2],
-                    parsedDate: validParsedDate,
-                    endDate,
-                    timeDisplay: isValidDate
-                        ? parsedDate.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
-                        : parts[0], // Fallback to original string if date parsing fails
-                    status: getMeetingStatus(validParsedDate, endDate),
-                }
-            })
-            .filter(m => m.StartTime && m.Subject && m.TeamsLink) // Remove the date validation that was causing issues
-            .sort((a, b) => a.parsedDate.getTime() - b.parsedDate.getTime()) // Sort by start time
-
-        return meetings
-    } catch (error) {
-        console.error("Error reading or parsing CSV file:", error)
-        throw new Error(`Could not read or find the file at: ${filePath}`)
-    }
-}
-
-export default function Command() {
-    const [meetings, setMeetings] = useState<MeetingInfo[]>([])
-    const [isLoading, setIsLoading] = useState(true)
-    const [filter, setFilter] = useState<FilterOption>(FilterOption.All)
-    const preferences = getPreferenceValues<Preferences>()
-    // Use default path if preference is not set
-    const defaultMeetingsPath = join(homedir(), "meetings.csv")
-    const meetingsFilePath = (preferences.meetingsFilePath || defaultMeetingsPath).replace("~", homedir())
-    // Parse auto-refresh hours (default to 24 if not set or invalid)
-    const autoRefreshHours = parseInt(preferences.autoRefreshHours || "24", 10) || 24
+    // A saved filter combines a filter option with a search query, to which the typed search is added
+    const preset = presets.find(({ id }) => id === filter)
+    const filterOption = preset ? preset.filter : (filter as FilterOption)
+    const query = parseSearchQuery(`${preset?.query ?? ""} ${searchText}`)
+    const filterRange = getFilterRange(filterOption, now)
 
     // Filter meetings based on dropdown selection
-    const filteredMeetings =
-        filter === FilterOption.UpcomingAndActive
-            ? meetings.filter(meeting => meeting.status !== MeetingStatus.Ended)
-            : meetings
+    const visibleMeetings = showDeclined ? meetings : filterDeclinedMeetings(meetings)
+    // Meetings hidden by rules are only listed with the "Including Hidden" filter
+    const unhiddenMeetings =
+        filterOption === FilterOption.IncludingHidden
+            ? visibleMeetings
+            : visibleMeetings.filter(meeting => !getRuleState(meeting, rules).hidden)
+    const filteredMeetings = unhiddenMeetings.filter(
+        meeting =>
+            (filterOption !== FilterOption.UpcomingAndActive || getStatus(meeting) !== MeetingStatus.Ended) &&
+            (filterOption !== FilterOption.Selected ||
+                !selectedKeys ||
+                selectedKeys.includes(getMeetingKey(meeting))) &&
+            (!filterRange || (meeting.parsedDate >= filterRange.start && meeting.parsedDate < filterRange.end)) &&
+            matchesSearchQuery(meeting, query),
+    )
+    // Meetings that take up time: declined and hidden meetings don't count for conflicts and free slots
+    const busyMeetings = filterHiddenMeetings(filterDeclinedMeetings(meetings), rules)
+    const conflicts = findConflicts(busyMeetings)
+    // Pinned meetings are listed in their own section above the days
+    const pinnedMeetings = filteredMeetings.filter(meeting => getRuleState(meeting, rules).pinned)
 
     // Group meetings by date
-    const groupedMeetings = filteredMeetings.reduce<GroupedMeetings>((groups, meeting) => {
-        const dateKey = meeting.parsedDate.toDateString()
-        if (!groups[dateKey]) {
-            groups[dateKey] = []
-        }
-        groups[dateKey].push(meeting)
-        return groups
-    }, {})
+    const groupedMeetings = filteredMeetings
+        .filter(meeting => !getRuleState(meeting, rules).pinned)
+        .reduce<GroupedMeetings>((groups, meeting) => {
+            const dateKey = meeting.parsedDate.toDateString()
+            if (!groups[dateKey]) {
+                groups[dateKey] = []
+            }
+            groups[dateKey].push(meeting)
+            return groups
+        }, {})
 
     // Get sorted date keys for consistent ordering
     const sortedDateKeys = Object.keys(groupedMeetings).sort((a, b) => new Date(a).getTime() - new Date(b).getTime())
 
-    // Function to load or reload the meeting list
-    const loadMeetings = async (skipAgeCheck = false) => {
-        const toast = await showToast({
-            style: Toast.Style.Animated,
-            title: "Loading meetings...",
-        })
+    // Function to load or reload the meeting list. In the background (while cached meetings are shown), a toast
+    // only appears for slow steps such as a PowerShell refresh and for problems.
+    const loadMeetings = async (skipAgeCheck = false, inBackground = false) => {
+        let toast: Toast | undefined = inBackground
+            ? undefined
+            : await showToast({ style: Toast.Style.Animated, title: "Loading meetings..." })
+        const report = async (style: Toast.Style, title: string, message?: string) => {
+            if (toast) {
+                toast.style = style
+                toast.title = title
+                toast.message = message
+            } else {
+                toast = await showToast({ style, title, message })
+            }
+        }
 
         try {
             setIsLoading(true)
 
-            // Check if file exists first
-            const exists = await fileExists(meetingsFilePath)
-            if (!exists) {
-                toast.title = "Meetings file not found"
-                toast.message = "Creating meetings file with PowerShell script..."
-                console.log("Meetings file not found at:", meetingsFilePath)
-
-                try {
-                    await refreshMeetingsWithPowerShell(
-                        preferences.powershellScriptPath || "",
-                        preferences.powershellFunctionName || "",
-                    )
-
-                    // Verify the file was actually created
-                    const fileCreated = await fileExists(meetingsFilePath)
-                    if (!fileCreated) {
-                        const errorMsg = `PowerShell script completed but file was not created at: ${meetingsFilePath}`
-                        console.error(errorMsg)
-                        toast.style = Toast.Style.Failure
-                        toast.title = "Failed to Create Meetings File"
-                        toast.message = errorMsg
-                        setMeetings([])
-                        setIsLoading(false)
-                        return
-                    }
-
-                    console.log("Meetings file successfully created")
-                    toast.style = Toast.Style.Success
-                    toast.title = "Meetings File Created"
-                    toast.message = "Successfully created meetings file"
-                } catch (refreshError) {
-                    const errorMsg = refreshError instanceof Error ? refreshError.message : "Unknown error"
-                    console.error("PowerShell script execution failed:", errorMsg)
-                    console.error("Full error:", refreshError)
-                    toast.style = Toast.Style.Failure
-                    toast.title = "PowerShell Script Failed"
-                    toast.message = errorMsg
-                    setMeetings([])
-                    setIsLoading(false)
-                    return
-                }
-            }
-
-            // Check if file is older than configured hours and auto-refresh if needed
-            if (!skipAgeCheck) {
-                const isOld = await isFileOlderThanHours(meetingsFilePath, autoRefreshHours)
-                if (isOld) {
-                    toast.title = "File is outdated, refreshing..."
-                    toast.message = `Meetings file is older than ${autoRefreshHours} hours, updating automatically`
-
-                    try {
-                        await refreshMeetingsWithPowerShell(
-                            preferences.powershellScriptPath || "",
-                            preferences.powershellFunctionName || "",
-                        )
-
-                        await showToast({
-                            style: Toast.Style.Success,
-                            title: "File Updated",
-                            message: "Meetings file has been automatically refreshed",
-                        })
-                    } catch (refreshError) {
-                        await showToast({
-                            style: Toast.Style.Failure,
-                            title: "Auto-refresh Failed",
-                            message: "Could not auto-refresh meetings file, loading existing file",
-                        })
-                    }
-                }
-            }
-
-            // Final check to ensure file exists before fetching
-            const fileStillExists = await fileExists(meetingsFilePath)
-            if (!fileStillExists) {
-                const errorMsg = `File does not exist at: ${meetingsFilePath}`
-                console.error(errorMsg)
-                toast.style = Toast.Style.Failure
-                toast.title = "Meetings File Not Found"
-                toast.message = errorMsg
-                setMeetings([])
-                setIsLoading(false)
-                return
+            const { meetings: loadedMeetings, results } = await loadFromSources(
+                sources,
+                getPreferencesWindow(preferences),
+                {
+                    skipAgeCheck,
+                    signal: abortController.current.signal,
+                    useCache: true,
+                    onProgress: (title, message) => report(Toast.Style.Animated, title, message),
+                },
+            )
+            // Keep the meetings of the sources that loaded, even if others failed
+            const failed = results.filter(result => result.error)
+            const skipped = results.flatMap(result => result.skippedRows ?? [])
+            setMeetings(loadedMeetings)
+            setFailedSources(failed)
+            setSkippedSources(results.filter(result => result.skippedRows && result.skippedRows.length > 0))
+            setStaleSources(results.filter(result => result.stale).map(result => result.source.name))
+
+            if (failed.length > 0 && failed.every(result => result.fromCache)) {
+                await report(
+                    Toast.Style.Failure,
+                    "Showing Cached Meetings",
+                    `Could not update ${failed.map(result => result.source.name).join(", ")}: ${failed[0].error?.message}`,
+                )
+            } else if (failed.length > 0 && failed.length === results.length) {
+                await report(
+                    Toast.Style.Failure,
+                    failed.length === 1 ? (failed[0].error?.title ?? "") : "Error Fetching Meetings",
+                    failed.length === 1
+                        ? failed[0].error?.message
+                        : `None of the ${failed.length} sources could be loaded`,
+                )
+            } else if (failed.length > 0) {
+                await report(
+                    Toast.Style.Failure,
+                    "Some Sources Failed",
+                    `Found ${loadedMeetings.length} meetings. Could not load: ${failed
+                        .map(result => result.source.name)
+                        .join(", ")}`,
+                )
+            } else if (results.some(result => result.refreshFailed)) {
+                await report(
+                    Toast.Style.Failure,
+                    "Auto-refresh Failed",
+                    `Could not auto-refresh meetings file, loaded ${loadedMeetings.length} meetings from existing file`,
+                )
+            } else if (skipped.length > 0) {
+                await report(
+                    Toast.Style.Failure,
+                    `Skipped ${skipped.length} ${skipped.length === 1 ? "Row" : "Rows"}`,
+                    `Found ${loadedMeetings.length} meetings. ${skipped
+                        .map(row => `Line ${row.line}: ${row.reason}`)
+                        .join("; ")}`,
+                )
+            } else if (toast) {
+                await report(Toast.Style.Success, "Meetings Loaded", `Found ${loadedMeetings.length} meetings.`)
             }
-
-            const fetchedMeetings = await fetchMeetings(meetingsFilePath)
-            setMeetings(fetchedMeetings)
-
-            toast.style = Toast.Style.Success
-            toast.title = "Meetings Loaded"
-            toast.message = `Found ${fetchedMeetings.length} meetings.`
-        } catch (error) {
-            toast.style = Toast.Style.Failure
-            toast.title = "Error Fetching Meetings"
-            toast.message = error instanceof Error ? error.message : "An unknown error occurred"
-            setMeetings([]) // Clear meetings on error
         } finally {
             setIsLoading(false)
         }
@@ -443,11 +357,14 @@ export default function Command() {
         })
 
         try {
-            // First run the PowerShell script to update the CSV
-            await refreshMeetingsWithPowerShell(
-                preferences.powershellScriptPath || "",
-                preferences.powershellFunctionName || "",
-            )
+            // First run the PowerShell script of every refreshable source to update its CSV
+            for (const source of sources) {
+                await source.refresh?.(abortController.current.signal)
+            }
+
+            toast.style = Toast.Style.Success
+            toast.title = "Meetings Refreshed"
+            toast.message = "Successfully updated meetings from PowerShell script"
 
             // Then reload the meetings from the updated CSV (skip age check since we just refreshed)
             await loadMeetings(true)
@@ -458,14 +375,75 @@ export default function Command() {
         }
     }
 
+    // Function to forget the Microsoft account so the next load signs in again
+    const signOut = async () => {
+        await signOutOfGraph()
+        await showToast({
+            style: Toast.Style.Success,
+            title: "Signed Out",
+            message: "Reload meetings to sign in to Microsoft again",
+        })
+    }
+
+    // Function to mark or unmark a meeting to be joined automatically by the Meeting Reminders command
+    const toggleAutoJoin = async (meeting: MeetingInfo) => {
+        const enabled = !autoJoinKeys.includes(getMeetingKey(meeting))
+        await setMeetingAutoJoin(meeting, enabled)
+        setAutoJoinKeys(await getAutoJoinMeetingKeys())
+        await showToast({
+            style: Toast.Style.Success,
+            title: enabled ? "Auto-join Enabled" : "Auto-join Disabled",
+            message: enabled
+                ? `${meeting.Subject} will be joined when it starts (requires the Meeting Reminders command)`
+                : `${meeting.Subject} will not be joined automatically`,
+        })
+    }
+
+    // Function to apply or remove an action for a single meeting
+    const toggleMeetingRule = async (meeting: MeetingInfo, action: RuleAction) => {
+        const enabled = !hasMeetingRule(meeting, rules, action)
+        setRules(await setMeetingRule(meeting, action, enabled))
+        const titles: Record<RuleAction, [string, string]> = {
+            [RuleAction.Pin]: ["Meeting Pinned", "Meeting Unpinned"],
+            [RuleAction.Hide]: ["Meeting Hidden", "Meeting Shown"],
+            [RuleAction.Mute]: ["Reminders Muted", "Reminders Unmuted"],
+        }
+        await showToast({
+            style: Toast.Style.Success,
+            title: titles[action][enabled ? 0 : 1],
+            message: meeting.Subject,
+        })
+    }
+
     // useEffect with an empty dependency array runs only once on mount
     useEffect(() => {
-        loadMeetings()
+        getAutoJoinMeetingKeys().then(setAutoJoinKeys)
+        getMeetingRules().then(setRules)
+        getNoteFileNames(noteSettings.folder).then(setNoteFiles)
+        getFilterPresets().then(loaded => {
+            setPresets(loaded)
+            // Fall back to all meetings when the remembered saved filter was deleted
+            const isKnown =
+                Object.values<string>(FilterOption).includes(filter) || loaded.some(({ id }) => id === filter)
+            if (!isKnown) {
+                selectFilter(FilterOption.All)
+            }
+        })
+        // Cached meetings are already listed, so revalidate them without a blocking toast
+        loadMeetings(false, meetings.length > 0)
+        return () => abortController.current.abort()
+    }, [])
+
+    // Re-evaluate statuses, countdowns and the filter as meetings start and end
+    useEffect(() => {
+        const timer = setInterval(() => setNow(new Date()), CLOCK_TICK_MS)
+        return () => clearInterval(timer)
     }, [])
 
+    // Function to get the heading of a day
     const formatDateSection = (dateKey: string): string => {
         const date = new Date(dateKey)
-        const today = new Date()
+        const today = now
         const tomorrow = new Date(today)
         tomorrow.setDate(tomorrow.getDate() + 1)
 
@@ -482,67 +460,396 @@ export default function Command() {
         }
     }
 
+    // The listed meetings, including pinned ones, under the same headings as the list
+    const agendaSections: AgendaSection[] = [
+        ...new Set(filteredMeetings.map(meeting => meeting.parsedDate.toDateString())),
+    ]
+        .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())
+        .map(dateKey => ({
+            title: formatDateSection(dateKey),
+            meetings: filteredMeetings.filter(meeting => meeting.parsedDate.toDateString() === dateKey),
+        }))
+
+    // Function to save the listed meetings as an .ics file in the Downloads folder
+    const saveAgendaFile = async () => {
+        try {
+            const filePath = await saveToDownloads(
+                `meetings-${formatFileDate(now)}.ics`,
+                createIcsCalendar(filteredMeetings, new Date()),
+            )
+            await showToast({
+                style: Toast.Style.Success,
+                title: "Agenda Saved",
+                message: filePath,
+                primaryAction: { title: "Show File", onAction: () => showInFinder(filePath) },
+            })
+        } catch (error) {
+            await showToast({
+                style: Toast.Style.Failure,
+                title: "Failed to Save Agenda",
+                message: error instanceof Error ? error.message : String(error),
+            })
+        }
+    }
+
+    const agendaActions = (
+        <>
+            <Action.CopyToClipboard
+                title="Copy Agenda as Markdown"
+                icon={Icon.Document}
+                content={formatAgendaMarkdown(agendaSections)}
+                shortcut={{
+                    macOS: { modifiers: ["cmd", "shift"], key: "c" },
+                    windows: { modifiers: ["ctrl", "shift"], key: "c" },
+                }}
+            />
+            <Action.CopyToClipboard
+                title="Copy Agenda as Text"
+                icon={Icon.Text}
+                content={formatAgendaText(agendaSections)}
+            />
+            <Action title="Save Agenda as Calendar File" icon={Icon.Calendar} onAction={saveAgendaFile} />
+        </>
+    )
+
+    // Function to delete the selected saved filter and go back to all meetings
+    const deletePreset = async (deleted: FilterPreset) => {
+        setPresets(await removeFilterPreset(deleted.id))
+        selectFilter(FilterOption.All)
+        await showToast({ style: Toast.Style.Success, title: "Filter Deleted", message: deleted.name })
+    }
+
+    const filterActions = (
+        <>
+            <Action.Push
+                title="Save Filter"
+                icon={Icon.SaveDocument}
+                target={
+                    <SaveFilterForm
+                        filter={filterOption}
+                        filterTitle={FILTER_TITLES[filterOption] ?? FILTER_TITLES[FilterOption.All]}
+                        query={`${preset?.query ?? ""} ${searchText}`}
+                        onSave={saved => {
+                            setPresets([...presets, saved])
+                            selectFilter(saved.id)
+                            setSearchText("")
+                        }}
+                    />
+                }
+                shortcut={{
+                    macOS: { modifiers: ["cmd"], key: "s" },
+                    windows: { modifiers: ["ctrl"], key: "s" },
+                }}
+            />
+            {preset && (
+                <Action
+                    title="Delete Saved Filter"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    onAction={() => deletePreset(preset)}
+                />
+            )}
+        </>
+    )
+
+    // Function to create the meeting's note if needed and open it in the default Markdown app
+    const openNote = async (meeting: MeetingInfo) => {
+        try {
+            const filePath = await createMeetingNote(meeting, noteSettings)
+            setNoteFiles(new Set([...noteFiles, basename(filePath)]))
+            await open(filePath)
+        } catch (error) {
+            await showToast({
+                style: Toast.Style.Failure,
+                title: "Failed to Open Note",
+                message: error instanceof Error ? error.message : String(error),
+            })
+        }
+    }
+
+    // Function to render a meeting of the list
+    const renderMeeting = (meeting: MeetingInfo, index: number) => {
+        const ruleState = getRuleState(meeting, rules)
+        return (
+            <List.Item
+                key={`${meeting.TeamsLink}-${index}`}
+                title={meeting.Subject}
+                subtitle={showDetail ? undefined : meeting.timeDisplay}
+                detail={<MeetingDetail meeting={meeting} />}
+                icon={getStatusIcon(getStatus(meeting))}
+                accessories={[
+                    ...(showSourceTags ? [{ tag: meeting.source }] : []),
+                    getProviderAccessory(meeting.provider),
+                    ...(staleSources.includes(meeting.source)
+                        ? [
+                              {
+                                  tag: { value: "Stale", color: Color.Orange },
+                                  tooltip: `${meeting.source} could not be updated and may be outdated`,
+                              },
+                          ]
+                        : []),
+                    ...getConflictAccessory(conflicts.get(getMeetingKey(meeting))),
+                    ...getCountdownAccessory(meeting, now),
+                    ...(autoJoinKeys.includes(getMeetingKey(meeting)) ||
+                    matchesSubjectPattern(meeting.Subject, autoJoinPatterns)
+                        ? [{ icon: Icon.Bolt, tooltip: "Joined automatically when it starts" }]
+                        : []),
+                    ...(ruleState.pinned ? [{ icon: Icon.Pin, tooltip: "Pinned" }] : []),
+                    ...(ruleState.hidden ? [{ icon: Icon.EyeDisabled, tooltip: "Hidden by a rule" }] : []),
+                    ...(ruleState.muted ? [{ icon: Icon.BellDisabled, tooltip: "Reminders muted" }] : []),
+                    ...(noteFiles.has(getNoteFileName(meeting, noteSettings.perSeries))
+                        ? [{ icon: Icon.Document, tooltip: "Has notes" }]
+                        : []),
+                    ...getResponseAccessory(meeting),
+                    getStatusAccessory(getStatus(meeting)),
+                ]}
+                actions={
+                    <ActionPanel>
+                        <Action
+                            title={`Join ${getProviderName(meeting.provider)} Meeting`}
+                            icon={Icon.Video}
+                            onAction={() =>
+                                openTeamsLink(
+                                    meeting.TeamsLink,
+                                    getJoinedMeeting(meeting),
+                                    getJoinSettings(preferences),
+                                )
+                            }
+                            shortcut={{
+                                macOS: { modifiers: ["cmd"], key: "j" },
+                                windows: { modifiers: ["ctrl"], key: "j" },
+                            }}
+                        />
+                        <Action
+                            title="Join in Browser"
+                            icon={Icon.Globe}
+                            onAction={() =>
+                                openTeamsLink(
+                                    meeting.TeamsLink,
+                                    getJoinedMeeting(meeting),
+                                    getJoinSettings(preferences),
+                                    JoinTarget.Browser,
+                                )
+                            }
+                            shortcut={{
+                                macOS: { modifiers: ["cmd", "shift"], key: "j" },
+                                windows: { modifiers: ["ctrl", "shift"], key: "j" },
+                            }}
+                        />
+                        <Action
+                            title="Copy Meeting Link"
+                            icon={Icon.CopyClipboard}
+                            onAction={async () => {
+                                await Clipboard.copy(meeting.TeamsLink)
+                                await showToast({
+                                    style: Toast.Style.Success,
+                                    title: "Link Copied",
+                                    message: "Meeting link copied to clipboard",
+                                })
+                            }}
+                            shortcut={{
+                                macOS: { modifiers: ["cmd"], key: "c" },
+                                windows: { modifiers: ["ctrl"], key: "c" },
+                            }}
+                        />
+                        <Action
+                            title={
+                                noteFiles.has(getNoteFileName(meeting, noteSettings.perSeries))
+                                    ? "Open Meeting Note"
+                                    : "Create Meeting Note"
+                            }
+                            icon={Icon.Document}
+                            onAction={() => openNote(meeting)}
+                            shortcut={{
+                                macOS: { modifiers: ["cmd"], key: "n" },
+                                windows: { modifiers: ["ctrl"], key: "n" },
+                            }}
+                        />
+                        <Action.CopyToClipboard
+                            title="Copy Invitation Text"
+                            icon={Icon.Envelope}
+                            content={formatInvitationText(meeting)}
+                        />
+                        <Action
+                            title={showDetail ? "Hide Details" : "Show Details"}
+                            icon={Icon.Sidebar}
+                            onAction={() => setShowDetail(!showDetail)}
+                            shortcut={{
+                                macOS: { modifiers: ["cmd"], key: "d" },
+                                windows: { modifiers: ["ctrl"], key: "d" },
+                            }}
+                        />
+                        <Action
+                            title={showDeclined ? "Hide Declined Meetings" : "Show Declined Meetings"}
+                            icon={showDeclined ? Icon.EyeDisabled : Icon.Eye}
+                            onAction={() => setShowDeclined(!showDeclined)}
+                        />
+                        {getStatus(meeting) !== MeetingStatus.Ended && (
+                            <Action
+                                title={
+                                    autoJoinKeys.includes(getMeetingKey(meeting))
+                                        ? "Stop Auto-joining This Meeting"
+                                        : "Auto-join This Meeting"
+                                }
+                                icon={Icon.Bolt}
+                                onAction={() => toggleAutoJoin(meeting)}
+                            />
+                        )}
+                        <Action
+                            title={hasMeetingRule(meeting, rules, RuleAction.Pin) ? "Unpin Meeting" : "Pin Meeting"}
+                            icon={Icon.Pin}
+                            onAction={() => toggleMeetingRule(meeting, RuleAction.Pin)}
+                            shortcut={{
+                                macOS: { modifiers: ["cmd", "shift"], key: "p" },
+                                windows: { modifiers: ["ctrl", "shift"], key: "p" },
+                            }}
+                        />
+                        <Action
+                            title={
+                                hasMeetingRule(meeting, rules, RuleAction.Hide)
+                                    ? "Show This Occurrence"
+                                    : "Hide This Occurrence"
+                            }
+                            icon={Icon.EyeDisabled}
+                            onAction={() => toggleMeetingRule(meeting, RuleAction.Hide)}
+                            shortcut={{
+                                macOS: { modifiers: ["cmd", "shift"], key: "h" },
+                                windows: { modifiers: ["ctrl", "shift"], key: "h" },
+                            }}
+                        />
+                        <Action
+                            title={
+                                hasMeetingRule(meeting, rules, RuleAction.Mute) ? "Unmute Reminders" : "Mute Reminders"
+                            }
+                            icon={Icon.BellDisabled}
+                            onAction={() => toggleMeetingRule(meeting, RuleAction.Mute)}
+                        />
+                        <Action.Push
+                            title="Add Rule for Subject"
+                            icon={Icon.Filter}
+                            target={<RuleForm subject={meeting.Subject} onSave={setRules} />}
+                        />
+                        <Action.Push
+                            title="Manage Rules"
+                            icon={Icon.List}
+                            target={<ManageRules onChange={setRules} />}
+                        />
+                        {filterActions}
+                        {agendaActions}
+                        <Action.Push
+                            title="Show Free Slots"
+                            icon={Icon.Clock}
+                            target={
+                                <FreeSlotsList
+                                    meetings={busyMeetings}
+                                    workingHours={getWorkingHours(preferences)}
+                                    window={getPreferencesWindow(preferences)}
+                                />
+                            }
+                            shortcut={{
+                                macOS: { modifiers: ["cmd", "shift"], key: "f" },
+                                windows: { modifiers: ["ctrl", "shift"], key: "f" },
+                            }}
+                        />
+                        <Action
+                            title="Reload Meetings"
+                            icon={Icon.Repeat}
+                            onAction={() => loadMeetings(true)}
+                            shortcut={{
+                                macOS: { modifiers: ["cmd"], key: "r" },
+                                windows: { modifiers: ["ctrl"], key: "r" },
+                            }}
+                        />
+                        {canRefresh && (
+                            <Action
+                                title="Refresh with Powershell"
+                                icon={Icon.Terminal}
+                                onAction={refreshMeetings}
+                                shortcut={{
+                                    macOS: { modifiers: ["cmd", "shift"], key: "r" },
+                                    windows: { modifiers: ["ctrl", "shift"], key: "r" },
+                                }}
+                            />
+                        )}
+                        {canRefresh && (
+                            <Action.Push
+                                title="Show Last Refresh Log"
+                                icon={Icon.Document}
+                                target={<RefreshLogDetail />}
+                            />
+                        )}
+                        {skippedSources.length > 0 && (
+                            <Action.Push
+                                title="Show Skipped Rows"
+                                icon={Icon.XMarkCircle}
+                                target={<SkippedRowsList results={skippedSources} />}
+                            />
+                        )}
+                        {usesGraph && <Action title="Sign out of Microsoft" icon={Icon.Logout} onAction={signOut} />}
+                    </ActionPanel>
+                }
+            />
+        )
+    }
+
     return (
         <List
             isLoading={isLoading}
-            searchBarPlaceholder="Filter meetings..."
+            isShowingDetail={showDetail && filteredMeetings.length > 0}
+            filtering={false}
+            searchText={searchText}
+            onSearchTextChange={setSearchText}
+            searchBarPlaceholder="Filter meetings (e.g. org:alice provider:zoom before:14:00)..."
             searchBarAccessory={
-                <List.Dropdown
-                    tooltip="Filter meetings"
-                    value={filter}
-                    onChange={newValue => setFilter(newValue as FilterOption)}
-                >
-                    <List.Dropdown.Item title="All Meetings" value={FilterOption.All} />
-                    <List.Dropdown.Item title="Upcoming & Active" value={FilterOption.UpcomingAndActive} />
+                <List.Dropdown tooltip="Filter meetings" value={filter} onChange={selectFilter}>
+                    <List.Dropdown.Section>
+                        {Object.values(FilterOption)
+                            .filter(option => option !== FilterOption.Selected || selectedKeys)
+                            .map(option => (
+                                <List.Dropdown.Item key={option} title={FILTER_TITLES[option]} value={option} />
+                            ))}
+                    </List.Dropdown.Section>
+                    {presets.length > 0 && (
+                        <List.Dropdown.Section title="Saved Filters">
+                            {presets.map(({ id, name }) => (
+                                <List.Dropdown.Item key={id} title={name} value={id} icon={Icon.Filter} />
+                            ))}
+                        </List.Dropdown.Section>
+                    )}
                 </List.Dropdown>
             }
         >
-            {filteredMeetings.length > 0 ? (
-                sortedDateKeys.map(dateKey => (
-                    <List.Section key={dateKey} title={formatDateSection(dateKey)}>
-                        {groupedMeetings[dateKey].map((meeting, index) => (
-                            <List.Item
-                                key={`${meeting.TeamsLink}-${index}`}
-                                title={meeting.Subject}
-                                subtitle={meeting.timeDisplay}
-                                icon={getStatusIcon(meeting.status)}
-                                accessories={[getStatusAccessory(meeting.status)]}
-                                actions={
-                                    <ActionPanel>
-                                        <Action
-                                            title="Join Teams Meeting"
-                                            icon={Icon.Video}
-                                            onAction={() => openTeamsLink(meeting.TeamsLink)}
-                                            shortcut={{
-                                                macOS: { modifiers: ["cmd"], key: "j" },
-                                                windows: { modifiers: ["ctrl"], key: "j" },
-                                            }}
-                                        />
-                                        <Action
-                                            title="Copy Meeting Link"
-                                            icon={Icon.CopyClipboard}
-                                            onAction={async () => {
-                                                await Clipboard.copy(meeting.TeamsLink)
-                                                await showToast({
-                                                    style: Toast.Style.Success,
-                                                    title: "Link Copied",
-                                                    message: "Teams meeting link copied to clipboard",
-                                                })
-                                            }}
-                                            shortcut={{
-                                                macOS: { modifiers: ["cmd"], key: "c" },
-                                                windows: { modifiers: ["ctrl"], key: "c" },
-                                            }}
-                                        />
-                                        <Action
-                                            title="Reload Meetings"
-                                            icon={Icon.Repeat}
-                                            onAction={() => loadMeetings(true)}
-                                            shortcut={{
-                                                macOS: { modifiers: ["cmd"], key: "r" },
-                                                windows: { modifiers: ["ctrl"], key: "r" },
-                                            }}
-                                        />
+            {failedSources.length > 0 && (
+                <List.Section title="Unavailable Sources">
+                    {failedSources.map(({ source, error, fromCache }) => (
+                        <List.Item
+                            key={source.id}
+                            title={source.name}
+                            subtitle={error?.message}
+                            icon={{ source: Icon.ExclamationMark, tintColor: Color.Red }}
+                            accessories={[
+                                ...(fromCache
+                                    ? [
+                                          {
+                                              tag: { value: "Cached", color: Color.Orange },
+                                              tooltip: "Showing cached meetings",
+                                          },
+                                      ]
+                                    : []),
+                                { text: error?.title, tooltip: source.location },
+                            ]}
+                            actions={
+                                <ActionPanel>
+                                    <Action
+                                        title="Reload Meetings"
+                                        icon={Icon.Repeat}
+                                        onAction={() => loadMeetings(true)}
+                                        shortcut={{
+                                            macOS: { modifiers: ["cmd"], key: "r" },
+                                            windows: { modifiers: ["ctrl"], key: "r" },
+                                        }}
+                                    />
+                                    {source.refresh && (
                                         <Action
                                             title="Refresh with Powershell"
                                             icon={Icon.Terminal}
@@ -552,35 +859,95 @@ export default function Command() {
                                                 windows: { modifiers: ["ctrl", "shift"], key: "r" },
                                             }}
                                         />
-                                    </ActionPanel>
-                                }
-                            />
-                        ))}
-                    </List.Section>
-                ))
-            ) : (
+                                    )}
+                                    <Action.CopyToClipboard title="Copy Error" content={error?.message ?? ""} />
+                                    {source.refresh && (
+                                        <Action.Push
+                                            title="Show Last Refresh Log"
+                                            icon={Icon.Document}
+                                            target={<RefreshLogDetail />}
+                                        />
+                                    )}
+                                    {skippedSources.length > 0 && (
+                                        <Action.Push
+                                            title="Show Skipped Rows"
+                                            icon={Icon.XMarkCircle}
+                                            target={<SkippedRowsList results={skippedSources} />}
+                                        />
+                                    )}
+                                    {source.id === "graph" && (
+                                        <Action title="Sign out of Microsoft" icon={Icon.Logout} onAction={signOut} />
+                                    )}
+                                </ActionPanel>
+                            }
+                        />
+                    ))}
+                </List.Section>
+            )}
+            {filteredMeetings.length > 0 ? (
+                <>
+                    {pinnedMeetings.length > 0 && (
+                        <List.Section title="Pinned">
+                            {pinnedMeetings.map((meeting, index) => renderMeeting(meeting, index))}
+                        </List.Section>
+                    )}
+                    {sortedDateKeys.map(dateKey => (
+                        <List.Section
+                            key={dateKey}
+                            title={formatDateSection(dateKey)}
+                            subtitle={getDaySummary(
+                                busyMeetings.filter(meeting => meeting.parsedDate.toDateString() === dateKey),
+                            )}
+                        >
+                            {groupedMeetings[dateKey].map((meeting, index) => renderMeeting(meeting, index))}
+                        </List.Section>
+                    ))}
+                </>
+            ) : failedSources.length > 0 ? null : (
                 <List.EmptyView
                     title={isLoading ? "Loading Meetings..." : "No Meetings Found"}
                     description={
                         isLoading
                             ? "Please wait..."
-                            : filter === FilterOption.UpcomingAndActive && meetings.length > 0
-                              ? "All meetings have ended. Change filter to 'All Meetings' to see them."
-                              : "No meetings found for today. The extension will automatically check for new meetings."
+                            : visibleMeetings.length === 0 && meetings.length > 0
+                              ? "All meetings were declined. Use 'Show Declined Meetings' to see them."
+                              : unhiddenMeetings.length === 0 && visibleMeetings.length > 0
+                                ? "All meetings are hidden by rules. Choose 'All Meetings (Including Hidden)' to see them."
+                                : filterOption === FilterOption.UpcomingAndActive && unhiddenMeetings.length > 0
+                                  ? "All meetings have ended. Change filter to 'All Meetings' to see them."
+                                  : unhiddenMeetings.length > 0
+                                    ? "No meetings match the selected filter or search."
+                                    : "No meetings found for today. The extension will automatically check for new meetings."
                     }
                     icon={Icon.Calendar}
                     actions={
                         !isLoading && (
                             <ActionPanel>
-                                <Action
-                                    title="Refresh with Powershell"
-                                    icon={Icon.Terminal}
-                                    onAction={refreshMeetings}
-                                    shortcut={{
-                                        macOS: { modifiers: ["cmd", "shift"], key: "r" },
-                                        windows: { modifiers: ["ctrl", "shift"], key: "r" },
-                                    }}
-                                />
+                                {visibleMeetings.length < meetings.length && (
+                                    <Action
+                                        title="Show Declined Meetings"
+                                        icon={Icon.Eye}
+                                        onAction={() => setShowDeclined(true)}
+                                    />
+                                )}
+                                {unhiddenMeetings.length < visibleMeetings.length && (
+                                    <Action
+                                        title="Show Hidden Meetings"
+                                        icon={Icon.Eye}
+                                        onAction={() => selectFilter(FilterOption.IncludingHidden)}
+                                    />
+                                )}
+                                {canRefresh && (
+                                    <Action
+                                        title="Refresh with Powershell"
+                                        icon={Icon.Terminal}
+                                        onAction={refreshMeetings}
+                                        shortcut={{
+                                            macOS: { modifiers: ["cmd", "shift"], key: "r" },
+                                            windows: { modifiers: ["ctrl", "shift"], key: "r" },
+                                        }}
+                                    />
+                                )}
                                 <Action
                                     title="Reload Meetings"
                                     icon={Icon.Repeat}
@@ -590,6 +957,21 @@ export default function Command() {
                                         windows: { modifiers: ["ctrl"], key: "r" },
                                     }}
                                 />
+                                {canRefresh && (
+                                    <Action.Push
+                                        title="Show Last Refresh Log"
+                                        icon={Icon.Document}
+                                        target={<RefreshLogDetail />}
+                                    />
+                                )}
+                                {skippedSources.length > 0 && (
+                                    <Action.Push
+                                        title="Show Skipped Rows"
+                                        icon={Icon.XMarkCircle}
+                                        target={<SkippedRowsList results={skippedSources} />}
+                                    />
+                                )}
+                                {filterActions}
                             </ActionPanel>
                         )
                     }
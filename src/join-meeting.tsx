@@ -0,0 +1,150 @@
+import { Action, ActionPanel, Clipboard, Form, getPreferenceValues, Icon, showHUD } from "@raycast/api"
+import { useEffect, useState } from "react"
+import { RecentMeetingsList } from "./components/recent-meetings-list"
+import {
+    AD_HOC_SOURCE,
+    addRecentMeeting,
+    formatMeetingId,
+    getDefaultMeetingTitle,
+    getJoinLink,
+    getRecentMeetings,
+    parseJoinText,
+    RecentMeeting,
+} from "./lib/adhoc"
+import { openTeamsLink } from "./lib/join"
+import { JoinTarget } from "./lib/launcher"
+import { getProviderName, MeetingProvider } from "./lib/links"
+import { getJoinSettings, Preferences } from "./lib/preferences"
+
+// Values of the join form
+interface JoinFormValues {
+    input: string
+    /** Only present when a meeting ID is entered */
+    passcode?: string
+    provider?: string
+    name: string
+}
+
+/**
+ * Joins a meeting from a pasted link (also wrapped by Safe Links) or a meeting ID and passcode, filling in the
+ * form from the clipboard when it contains one.
+ */
+export default function Command() {
+    const [input, setInput] = useState("")
+    const [passcode, setPasscode] = useState("")
+    const [provider, setProvider] = useState<string>(MeetingProvider.Teams)
+    const [inputError, setInputError] = useState<string | undefined>()
+    const [fromClipboard, setFromClipboard] = useState(false)
+    const [recentMeetings, setRecentMeetings] = useState<RecentMeeting[]>([])
+
+    // A link is joined as it is; the passcode and service only apply to a meeting ID
+    const isLink = /^https?:\/\//i.test(input.trim())
+
+    // useEffect with an empty dependency array runs only once on mount
+    useEffect(() => {
+        getRecentMeetings()
+            .then(setRecentMeetings)
+            .catch(error => console.error("Could not read recent meetings:", error))
+        // The clipboard only prefills the form, so the form stays empty when it can't be read
+        Clipboard.readText()
+            .then(text => {
+                const details = text ? parseJoinText(text) : undefined
+                if (!details) {
+                    return
+                }
+                setInput(details.link?.url ?? formatMeetingId(details.meetingId ?? ""))
+                setPasscode(details.passcode ?? "")
+                setProvider(details.provider === MeetingProvider.Zoom ? MeetingProvider.Zoom : MeetingProvider.Teams)
+                setFromClipboard(true)
+            })
+            .catch(error => console.error("Could not read the clipboard:", error))
+    }, [])
+
+    // Function to join the meeting and remember it
+    const join = async (values: JoinFormValues, target?: JoinTarget) => {
+        const code = values.passcode?.trim() ?? ""
+        const link = getJoinLink(values.input, code, values.provider as MeetingProvider)
+        if (!link) {
+            setInputError("Enter a meeting link or a meeting ID of 9 to 15 digits")
+            return
+        }
+        if (link.provider === MeetingProvider.Teams && !isLink && code === "") {
+            setInputError("Teams meetings joined by ID need the passcode")
+            return
+        }
+
+        const title = values.name.trim() || getDefaultMeetingTitle(link, isLink ? undefined : values.input)
+        const joined = { subject: title, source: AD_HOC_SOURCE }
+        if (await openTeamsLink(link.url, joined, getJoinSettings(getPreferenceValues<Preferences>()), target)) {
+            setRecentMeetings(await addRecentMeeting(link, title))
+            await showHUD(`Joining ${title}`)
+        }
+    }
+
+    return (
+        <Form
+            actions={
+                <ActionPanel>
+                    <Action.SubmitForm
+                        title="Join Meeting"
+                        icon={Icon.Video}
+                        onSubmit={(values: JoinFormValues) => join(values)}
+                    />
+                    <Action.SubmitForm
+                        title="Join in Browser"
+                        icon={Icon.Globe}
+                        onSubmit={(values: JoinFormValues) => join(values, JoinTarget.Browser)}
+                    />
+                    <Action.Push
+                        title="Show Recent Meetings"
+                        icon={Icon.Clock}
+                        target={<RecentMeetingsList meetings={recentMeetings} onChange={setRecentMeetings} />}
+                        shortcut={{
+                            macOS: { modifiers: ["cmd"], key: "y" },
+                            windows: { modifiers: ["ctrl"], key: "y" },
+                        }}
+                    />
+                </ActionPanel>
+            }
+        >
+            {fromClipboard && <Form.Description text="Filled in from the clipboard." />}
+            <Form.TextField
+                id="input"
+                title="Link or Meeting ID"
+                placeholder="https://teams.microsoft.com/... or 123 456 789 012"
+                value={input}
+                error={inputError}
+                onChange={value => {
+                    setInput(value)
+                    setInputError(undefined)
+                }}
+            />
+            {!isLink && (
+                <>
+                    <Form.TextField
+                        id="passcode"
+                        title="Passcode"
+                        placeholder="Required for Teams meeting IDs"
+                        value={passcode}
+                        onChange={setPasscode}
+                    />
+                    <Form.Dropdown id="provider" title="Service" value={provider} onChange={setProvider}>
+                        {[MeetingProvider.Teams, MeetingProvider.Zoom].map(option => (
+                            <Form.Dropdown.Item key={option} title={getProviderName(option)} value={option} />
+                        ))}
+                    </Form.Dropdown>
+                </>
+            )}
+            <Form.TextField id="name" title="Name" placeholder="Optional, e.g. Vendor call" />
+            {recentMeetings.length > 0 && (
+                <Form.Description
+                    title="Recent"
+                    text={`${recentMeetings
+                        .slice(0, 3)
+                        .map(({ title }) => title)
+                        .join(", ")} — use "Show Recent Meetings" to join them again.`}
+                />
+            )}
+        </Form>
+    )
+}
@@ -0,0 +1,58 @@
+import { getPreferenceValues, launchCommand, LaunchType, showHUD } from "@raycast/api"
+import { getJoinedMeeting } from "./lib/history"
+import { FindMeetingsLaunchContext, openTeamsLink } from "./lib/join"
+import { formatDuration, formatTime, getMeetingKey, getMeetingStatus, MeetingInfo, MeetingStatus } from "./lib/meetings"
+import { getEarlyJoinMinutes, getJoinSettings, Preferences } from "./lib/preferences"
+import { filterDeclinedMeetings, filterHiddenMeetings, getMeetingRules } from "./lib/rules"
+import { getMeetingSources, getPreferencesWindow, loadFromSources } from "./lib/sources"
+
+// Function to describe when the next meeting starts (e.g. "in 42 min" or "Tuesday at 09:00")
+function describeStart(meeting: MeetingInfo, now: Date): string {
+    if (meeting.parsedDate.toDateString() === now.toDateString()) {
+        return `in ${formatDuration(meeting.parsedDate.getTime() - now.getTime())}`
+    }
+    return `${meeting.parsedDate.toLocaleDateString([], { weekday: "long" })} at ${formatTime(meeting.parsedDate)}`
+}
+
+/**
+ * Joins the meeting that is active or about to start. When several overlap, opens Find Teams Meetings showing
+ * only those; when none is close, shows when the next one starts.
+ */
+export default async function Command() {
+    const preferences = getPreferenceValues<Preferences>()
+    const { meetings: loadedMeetings, results } = await loadFromSources(
+        getMeetingSources(preferences),
+        getPreferencesWindow(preferences),
+    )
+    // Declined and hidden meetings (e.g. focus time blocks with a Teams link) are never joined
+    const meetings = filterHiddenMeetings(filterDeclinedMeetings(loadedMeetings), await getMeetingRules())
+
+    const failed = results.filter(result => result.error)
+    if (meetings.length === 0 && failed.length > 0) {
+        await showHUD(`Could not load meetings: ${failed[0].error?.message}`)
+        return
+    }
+
+    const now = new Date()
+    const earlyJoinMinutes = getEarlyJoinMinutes(preferences)
+    const statuses = meetings.map(meeting => ({
+        meeting,
+        status: getMeetingStatus(meeting.parsedDate, meeting.endDate, now, earlyJoinMinutes),
+    }))
+    const active = statuses.filter(({ status }) => status === MeetingStatus.Active).map(({ meeting }) => meeting)
+
+    if (active.length === 1) {
+        await showHUD(`Joining ${active[0].Subject}`)
+        await openTeamsLink(active[0].TeamsLink, getJoinedMeeting(active[0]), getJoinSettings(preferences))
+        return
+    }
+
+    if (active.length > 1) {
+        const context: FindMeetingsLaunchContext = { meetingKeys: active.map(getMeetingKey) }
+        await launchCommand({ name: "find-meetings", type: LaunchType.UserInitiated, context })
+        return
+    }
+
+    const next = statuses.find(({ status }) => status === MeetingStatus.Upcoming)?.meeting
+    await showHUD(next ? `Next: ${next.Subject} ${describeStart(next, now)}` : "No upcoming meetings")
+}
@@ -0,0 +1,180 @@
+import { LocalStorage } from "@raycast/api"
+import { findMeetingLink, getProviderName, MeetingLink, MeetingProvider, resolveMeetingLink } from "./links"
+
+// A join link or meeting ID recognized in pasted text (e.g. "Meeting ID: 123 456 789 012 Passcode: abc123")
+export interface JoinDetails {
+    link?: MeetingLink
+    /** Digits of the meeting ID, without spaces */
+    meetingId?: string
+    passcode?: string
+    provider: MeetingProvider
+}
+
+// A meeting joined by link or ID, kept to join it again
+export interface RecentMeeting {
+    url: string
+    provider: MeetingProvider
+    title: string
+    /** Time of the last join, in ms */
+    joinedAt: number
+}
+
+// Source recorded in the join history for meetings joined by link or ID
+export const AD_HOC_SOURCE = "Link or ID"
+
+// LocalStorage key of the recently joined meetings
+const RECENT_MEETINGS_KEY = "recentAdHocMeetings"
+
+// Number of recently joined meetings that are kept
+const MAX_RECENT_MEETINGS = 10
+
+// Teams meeting IDs have 10 to 15 digits and Zoom meeting IDs 9 to 11, usually written in groups
+const MEETING_ID_REGEX = /meeting\s*id\s*[:#]?\s*(\d[\d -]{7,20}\d)/i
+const BARE_MEETING_ID_REGEX = /^\d[\d -]{7,20}\d$/
+const PASSCODE_REGEX = /(?:passcode|password|pwd)\s*[:=]?\s*(\S+)/i
+
+/**
+ * Formats a meeting ID in groups of three or four digits, as Teams and Zoom show them.
+ * @param meetingId The digits of the meeting ID
+ * @returns string The ID with spaces (e.g. "123 456 789 012")
+ */
+export function formatMeetingId(meetingId: string): string {
+    return meetingId.length <= 11 && meetingId.length > 9
+        ? `${meetingId.slice(0, 3)} ${meetingId.slice(3, 7)} ${meetingId.slice(7)}`
+        : (meetingId.match(/\d{1,3}/g) ?? []).join(" ")
+}
+
+// Guesses the provider of a meeting ID from the surrounding text or, failing that, from its length
+function guessIdProvider(text: string, meetingId: string): MeetingProvider {
+    if (/zoom/i.test(text)) {
+        return MeetingProvider.Zoom
+    }
+    if (/teams/i.test(text)) {
+        return MeetingProvider.Teams
+    }
+    return meetingId.length <= 11 ? MeetingProvider.Zoom : MeetingProvider.Teams
+}
+
+/**
+ * Recognizes a meeting to join in pasted text: a join link (also wrapped by Safe Links), or a meeting ID with
+ * an optional passcode.
+ * @param text The text, e.g. the clipboard contents
+ * @returns JoinDetails | undefined What was recognized, or undefined if the text contains neither
+ */
+export function parseJoinText(text: string): JoinDetails | undefined {
+    const link = findMeetingLink(text)
+    if (link) {
+        return { link, provider: link.provider }
+    }
+
+    const trimmed = text.trim()
+    const idText = BARE_MEETING_ID_REGEX.test(trimmed) ? trimmed : text.match(MEETING_ID_REGEX)?.[1]
+    if (!idText) {
+        return undefined
+    }
+
+    const meetingId = idText.replace(/\D/g, "")
+    return {
+        meetingId,
+        passcode: text.match(PASSCODE_REGEX)?.[1],
+        provider: guessIdProvider(text, meetingId),
+    }
+}
+
+/**
+ * Builds the join link of a meeting ID: a Teams /meet/ short link or a Zoom /j/ link.
+ * @param meetingId The meeting ID (spaces and dashes are ignored)
+ * @param passcode The passcode, if any
+ * @param provider Teams or Zoom
+ * @returns MeetingLink | undefined The link, or undefined if the ID isn't 9 to 15 digits
+ */
+export function getMeetingIdLink(
+    meetingId: string,
+    passcode: string,
+    provider: MeetingProvider,
+): MeetingLink | undefined {
+    const digits = meetingId.replace(/[\s-]/g, "")
+    if (!/^\d{9,15}$/.test(digits)) {
+        return undefined
+    }
+
+    const code = passcode.trim()
+    if (provider === MeetingProvider.Zoom) {
+        return { url: `https://zoom.us/j/${digits}${code ? `?pwd=${encodeURIComponent(code)}` : ""}`, provider }
+    }
+    return { url: `https://teams.microsoft.com/meet/${digits}?p=${encodeURIComponent(code)}`, provider }
+}
+
+/**
+ * Turns what was typed in the join form into a joinable link.
+ * @param input A join link (also wrapped by Safe Links) or a meeting ID
+ * @param passcode The passcode for a meeting ID
+ * @param provider The provider of a meeting ID
+ * @returns MeetingLink | undefined The link, or undefined if the input is neither a link nor a meeting ID
+ */
+export function getJoinLink(input: string, passcode: string, provider: MeetingProvider): MeetingLink | undefined {
+    const trimmed = input.trim()
+    if (/^https?:\/\//i.test(trimmed)) {
+        return resolveMeetingLink(trimmed)
+    }
+    return getMeetingIdLink(trimmed, passcode, provider)
+}
+
+/**
+ * Gets a title for a meeting joined by link or ID when no name was entered.
+ * @param link The join link
+ * @param meetingId The meeting ID, if the meeting was joined by ID
+ * @returns string The title (e.g. "Zoom 123 4567 8901" or "Teams Meeting")
+ */
+export function getDefaultMeetingTitle(link: MeetingLink, meetingId?: string): string {
+    const digits = meetingId?.replace(/\D/g, "")
+    return digits
+        ? `${getProviderName(link.provider)} ${formatMeetingId(digits)}`
+        : `${getProviderName(link.provider)} Meeting`
+}
+
+/**
+ * Reads the meetings recently joined by link or ID.
+ * @returns Promise<RecentMeeting[]> The meetings, most recently joined first
+ */
+export async function getRecentMeetings(): Promise<RecentMeeting[]> {
+    const value = await LocalStorage.getItem<string>(RECENT_MEETINGS_KEY)
+    if (!value) {
+        return []
+    }
+
+    try {
+        return JSON.parse(value) as RecentMeeting[]
+    } catch (error) {
+        // An unreadable list is treated like an empty one and overwritten by the next join
+        console.error("Ignoring invalid recent meetings:", error)
+        return []
+    }
+}
+
+/**
+ * Records that a meeting was joined by link or ID, moving it to the top if it was joined before.
+ * @param link The join link
+ * @param title The meeting's title
+ * @returns Promise<RecentMeeting[]> The updated list
+ */
+export async function addRecentMeeting(link: MeetingLink, title: string): Promise<RecentMeeting[]> {
+    const meeting: RecentMeeting = { url: link.url, provider: link.provider, title, joinedAt: Date.now() }
+    const meetings = [meeting, ...(await getRecentMeetings()).filter(({ url }) => url !== link.url)].slice(
+        0,
+        MAX_RECENT_MEETINGS,
+    )
+    await LocalStorage.setItem(RECENT_MEETINGS_KEY, JSON.stringify(meetings))
+    return meetings
+}
+
+/**
+ * Removes a meeting from the recently joined meetings.
+ * @param url The meeting's join link
+ * @returns Promise<RecentMeeting[]> The remaining meetings
+ */
+export async function removeRecentMeeting(url: string): Promise<RecentMeeting[]> {
+    const meetings = (await getRecentMeetings()).filter(meeting => meeting.url !== url)
+    await LocalStorage.setItem(RECENT_MEETINGS_KEY, JSON.stringify(meetings))
+    return meetings
+}
@@ -0,0 +1,141 @@
+import { createHash } from "crypto"
+import { getProviderName, MeetingProvider } from "./links"
+import { getMeetingKey, MeetingInfo } from "./meetings"
+
+// Meetings listed under a heading, e.g. "Today" or "Thursday, Oct 22"
+export interface AgendaSection {
+    title: string
+    meetings: MeetingInfo[]
+}
+
+// Longest content line of an iCalendar file in octets, without the line break (RFC 5545, section 3.1)
+const MAX_ICS_LINE_OCTETS = 75
+
+/**
+ * Writes the meetings as a Markdown agenda with one heading per day and linked subjects.
+ * @param sections The meetings grouped by day
+ * @returns string The Markdown
+ */
+export function formatAgendaMarkdown(sections: AgendaSection[]): string {
+    return sections
+        .map(({ title, meetings }) => {
+            const items = meetings.map(meeting => {
+                const location = meeting.location ? ` · ${meeting.location}` : ""
+                // Brackets in subjects would end the link text early
+                const subject = meeting.Subject.replace(/([[\]])/g, "\\$1")
+                return `- **${meeting.timeDisplay}** [${subject}](${meeting.TeamsLink})${location}`
+            })
+            return [`## ${title}`, "", ...items].join("\n")
+        })
+        .join("\n\n")
+}
+
+/**
+ * Writes the meetings as a plain-text agenda, e.g. for chats that don't render Markdown.
+ * @param sections The meetings grouped by day
+ * @returns string The text, with each join link on the line below its meeting
+ */
+export function formatAgendaText(sections: AgendaSection[]): string {
+    return sections
+        .map(({ title, meetings }) => {
+            const items = meetings.map(meeting => {
+                const location = meeting.location ? ` (${meeting.location})` : ""
+                return `${meeting.timeDisplay}  ${meeting.Subject}${location}\n    ${meeting.TeamsLink}`
+            })
+            return [title, ...items].join("\n")
+        })
+        .join("\n\n")
+}
+
+/**
+ * Writes a meeting as a paste-ready invitation with the subject, date, time range and join link.
+ * @param meeting The meeting
+ * @returns string The invitation text
+ */
+export function formatInvitationText(meeting: MeetingInfo): string {
+    const date = meeting.parsedDate.toLocaleDateString([], { weekday: "long", month: "short", day: "numeric" })
+    return [
+        meeting.Subject,
+        `${date}, ${meeting.timeDisplay}`,
+        ...(meeting.location ? [meeting.location] : []),
+        "",
+        `Join ${getProviderName(meeting.provider)} Meeting: ${meeting.TeamsLink}`,
+    ].join("\n")
+}
+
+// Escapes a TEXT value (backslashes, semicolons, commas and line breaks)
+function escapeText(value: string): string {
+    return value.replace(/([\\;,])/g, "\\$1").replace(/\r?\n/g, "\\n")
+}
+
+// Formats a date as a UTC DATE-TIME value, e.g. 20261019T073000Z
+function formatIcsDate(date: Date): string {
+    return date
+        .toISOString()
+        .replace(/[-:]/g, "")
+        .replace(/\.\d{3}/, "")
+}
+
+// Splits a content line into lines of at most 75 octets, continued with a leading space
+function foldLine(line: string): string {
+    const lines: string[] = []
+    let current = ""
+    for (const char of line) {
+        // Continuation lines start with a space, which counts towards their length
+        const limit = lines.length === 0 ? MAX_ICS_LINE_OCTETS : MAX_ICS_LINE_OCTETS - 1
+        if (Buffer.byteLength(current + char) > limit) {
+            lines.push(current)
+            current = ""
+        }
+        current += char
+    }
+    lines.push(current)
+    return lines.join("\r\n ")
+}
+
+// Writes the VEVENT of a meeting; the UID is derived from the meeting key, so exporting again updates the event
+function createVEvent(meeting: MeetingInfo, stamp: string): string[] {
+    const uid = createHash("sha1").update(getMeetingKey(meeting)).digest("hex")
+    const description = [
+        `Join ${getProviderName(meeting.provider)} Meeting: ${meeting.TeamsLink}`,
+        ...(meeting.organizer ? [`Organizer: ${meeting.organizer}`] : []),
+        ...(meeting.bodyExcerpt ? ["", meeting.bodyExcerpt] : []),
+    ].join("\n")
+
+    return [
+        "BEGIN:VEVENT",
+        `UID:${uid}@join-teams-meetings`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatIcsDate(meeting.parsedDate)}`,
+        `DTEND:${formatIcsDate(meeting.endDate)}`,
+        `SUMMARY:${escapeText(meeting.Subject)}`,
+        ...(meeting.location ? [`LOCATION:${escapeText(meeting.location)}`] : []),
+        `DESCRIPTION:${escapeText(description)}`,
+        `URL:${meeting.TeamsLink}`,
+        // Outlook and this extension read the Teams join link from this property
+        ...(meeting.provider === MeetingProvider.Teams
+            ? [`X-MICROSOFT-SKYPETEAMSMEETINGURL:${meeting.TeamsLink}`]
+            : []),
+        "END:VEVENT",
+    ]
+}
+
+/**
+ * Writes the meetings as an iCalendar file that calendar apps can import.
+ * @param meetings The meetings
+ * @param now The time of the export, used as DTSTAMP
+ * @returns string The contents of the .ics file, with CRLF line breaks
+ */
+export function createIcsCalendar(meetings: MeetingInfo[], now: Date): string {
+    const stamp = formatIcsDate(now)
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//Join Teams Meetings//Raycast Extension//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        ...meetings.flatMap(meeting => createVEvent(meeting, stamp)),
+        "END:VCALENDAR",
+    ]
+    return lines.map(foldLine).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,102 @@
+import { Cache } from "@raycast/api"
+import { LoadedMeetings, MeetingInfo, MeetingsWindow, SkippedRow } from "./meetings"
+
+// Meetings are cached per source, so each source can be revalidated on its own
+const cache = new Cache({ namespace: "meetings" })
+
+// A meeting as stored in the cache, with its dates as ISO strings
+type CachedMeeting = Omit<MeetingInfo, "parsedDate" | "endDate"> & { parsedDate: string; endDate: string }
+
+// Cache entry of a single source
+interface CacheEntry {
+    /** Fingerprint of the data the meetings were parsed from (see MeetingSource.getFingerprint) */
+    fingerprint?: string
+    windowStart: string
+    windowEnd: string
+    meetings: CachedMeeting[]
+    skippedRows: SkippedRow[]
+}
+
+// Meetings read back from the cache
+export interface CachedMeetings extends LoadedMeetings {
+    fingerprint?: string
+    window: MeetingsWindow
+}
+
+// Identifies a source in the cache; changing its file path starts with an empty cache
+function getCacheKey(source: { id: string; location: string }): string {
+    return `${source.id}:${source.location}`
+}
+
+/**
+ * Reads the last meetings loaded from a source.
+ * @param source The source
+ * @returns CachedMeetings | undefined The cached meetings, or undefined if the source was never loaded
+ */
+export function getCachedMeetings(source: { id: string; location: string }): CachedMeetings | undefined {
+    const value = cache.get(getCacheKey(source))
+    if (!value) {
+        return undefined
+    }
+
+    try {
+        const entry = JSON.parse(value) as CacheEntry
+        return {
+            fingerprint: entry.fingerprint,
+            window: { start: new Date(entry.windowStart), end: new Date(entry.windowEnd) },
+            meetings: entry.meetings.map(meeting => ({
+                ...meeting,
+                parsedDate: new Date(meeting.parsedDate),
+                endDate: new Date(meeting.endDate),
+            })),
+            skippedRows: entry.skippedRows,
+        }
+    } catch (error) {
+        // An unreadable entry is treated like an empty cache and overwritten by the next load
+        console.error("Ignoring invalid meetings cache entry:", error)
+        return undefined
+    }
+}
+
+/**
+ * Stores the meetings loaded from a source.
+ * @param source The source
+ * @param window Range of time the meetings were loaded for
+ * @param loaded The meetings and skipped rows
+ * @param fingerprint Fingerprint of the data the meetings were parsed from
+ */
+export function setCachedMeetings(
+    source: { id: string; location: string },
+    window: MeetingsWindow,
+    loaded: LoadedMeetings,
+    fingerprint?: string,
+) {
+    const entry: CacheEntry = {
+        fingerprint,
+        windowStart: window.start.toISOString(),
+        windowEnd: window.end.toISOString(),
+        meetings: loaded.meetings.map(meeting => ({
+            ...meeting,
+            parsedDate: meeting.parsedDate.toISOString(),
+            endDate: meeting.endDate.toISOString(),
+        })),
+        skippedRows: loaded.skippedRows,
+    }
+    cache.set(getCacheKey(source), JSON.stringify(entry))
+}
+
+/**
+ * Checks whether cached meetings can be used instead of loading the source again.
+ * @param cached The cached meetings
+ * @param window Range of time to load meetings for
+ * @param fingerprint Current fingerprint of the source, or undefined if it is unknown
+ * @returns boolean True if the data and window are unchanged
+ */
+export function isCacheCurrent(cached: CachedMeetings, window: MeetingsWindow, fingerprint?: string): boolean {
+    return (
+        fingerprint !== undefined &&
+        cached.fingerprint === fingerprint &&
+        cached.window.start.getTime() === window.start.getTime() &&
+        cached.window.end.getTime() === window.end.getTime()
+    )
+}
@@ -0,0 +1,196 @@
+// Delimiters accepted in meetings files, in order of preference when counts are tied
+export const CSV_DELIMITERS = [";", ",", "\t"] as const
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number]
+
+// A single data record of a CSV file
+export interface CsvRecord {
+    /** 1-based line number where the record starts in the source file */
+    line: number
+    /** Field values keyed by normalized header name (see normalizeHeader) */
+    values: Record<string, string>
+}
+
+// Result of parsing a CSV file with a header row
+export interface CsvTable {
+    delimiter: CsvDelimiter
+    /** Header names as they appear in the file */
+    headers: string[]
+    records: CsvRecord[]
+}
+
+/**
+ * Normalizes a header name so columns can be matched regardless of case, spacing or underscores.
+ * @param header Header name as written in the file (e.g. "Start Time", "start_time")
+ * @returns string The normalized name (e.g. "starttime")
+ */
+export function normalizeHeader(header: string): string {
+    return header.toLowerCase().replace(/[\s_-]/g, "")
+}
+
+/**
+ * Detects the delimiter of a CSV file by counting candidates outside quotes on the header line.
+ * Falls back to ";" (the format written by the bundled PowerShell script) when no candidate is found.
+ * @param content Raw file content
+ * @returns CsvDelimiter The most frequent delimiter on the first line
+ */
+export function detectDelimiter(content: string): CsvDelimiter {
+    const counts = new Map<CsvDelimiter, number>(CSV_DELIMITERS.map(d => [d, 0]))
+    let inQuotes = false
+
+    for (const char of stripBom(content)) {
+        if (char === '"') {
+            inQuotes = !inQuotes
+        } else if (!inQuotes && (char === "\n" || char === "\r")) {
+            break
+        } else if (!inQuotes && counts.has(char as CsvDelimiter)) {
+            counts.set(char as CsvDelimiter, (counts.get(char as CsvDelimiter) ?? 0) + 1)
+        }
+    }
+
+    let best: CsvDelimiter = ";"
+    let bestCount = 0
+    for (const delimiter of CSV_DELIMITERS) {
+        const count = counts.get(delimiter) ?? 0
+        if (count > bestCount) {
+            best = delimiter
+            bestCount = count
+        }
+    }
+    return best
+}
+
+/**
+ * Splits CSV content into rows of raw fields following RFC 4180: fields may be wrapped in double quotes,
+ * quotes inside quoted fields are escaped by doubling them, and quoted fields may contain delimiters and newlines.
+ * Blank lines are skipped.
+ * @param content Raw file content (a leading BOM is ignored)
+ * @param delimiter Field delimiter
+ * @returns Array of rows with the 1-based line number each row starts on
+ */
+export function parseCsvRows(content: string, delimiter: CsvDelimiter): { line: number; fields: string[] }[] {
+    const text = stripBom(content)
+    const rows: { line: number; fields: string[] }[] = []
+
+    let fields: string[] = []
+    let field = ""
+    let inQuotes = false
+    let line = 1
+    let rowLine = 1
+
+    const endRow = () => {
+        fields.push(field)
+        // A row with a single empty field is a blank line
+        if (fields.length > 1 || fields[0] !== "") {
+            rows.push({ line: rowLine, fields })
+        }
+        fields = []
+        field = ""
+    }
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i]
+
+        if (inQuotes) {
+            if (char === '"') {
+                if (text[i + 1] === '"') {
+                    field += '"'
+                    i++
+                } else {
+                    inQuotes = false
+                }
+            } else {
+                if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) {
+                    line++
+                }
+                field += char
+            }
+            continue
+        }
+
+        if (char === '"') {
+            inQuotes = true
+        } else if (char === delimiter) {
+            fields.push(field)
+            field = ""
+        } else if (char === "\r" || char === "\n") {
+            if (char === "\r" && text[i + 1] === "\n") {
+                i++
+            }
+            endRow()
+            line++
+            rowLine = line
+        } else {
+            field += char
+        }
+    }
+
+    if (field !== "" || fields.length > 0) {
+        endRow()
+    }
+
+    return rows
+}
+
+/**
+ * Parses CSV content whose first row is a header, mapping every record's fields by header name.
+ * @param content Raw file content
+ * @param delimiter Field delimiter (auto-detected from the header line when omitted)
+ * @returns CsvTable The detected delimiter, header names and records
+ */
+export function parseCsv(content: string, delimiter: CsvDelimiter = detectDelimiter(content)): CsvTable {
+    const [headerRow, ...dataRows] = parseCsvRows(content, delimiter)
+    const headers = headerRow ? headerRow.fields.map(header => header.trim()) : []
+    const keys = headers.map(normalizeHeader)
+
+    const records = dataRows.map(row => {
+        const values: Record<string, string> = {}
+        keys.forEach((key, index) => {
+            // Keep the first column when a header is duplicated
+            if (key && !(key in values)) {
+                values[key] = row.fields[index] ?? ""
+            }
+        })
+        return { line: row.line, values }
+    })
+
+    return { delimiter, headers, records }
+}
+
+/**
+ * Reads a field from a record by column name.
+ * @param record The CSV record
+ * @param column Column name (matched with normalizeHeader)
+ * @returns string | undefined The trimmed value, or undefined if the column is missing
+ */
+export function getField(record: CsvRecord, column: string): string | undefined {
+    return record.values[normalizeHeader(column)]?.trim()
+}
+
+/**
+ * Lists which of the given columns are missing from the header row.
+ * @param table The parsed CSV table
+ * @param columns Column names to look for
+ * @returns string[] The names of the missing columns
+ */
+export function findMissingColumns(table: CsvTable, columns: string[]): string[] {
+    const present = new Set(table.headers.map(normalizeHeader))
+    return columns.filter(column => !present.has(normalizeHeader(column)))
+}
+
+/**
+ * Writes rows as CSV following RFC 4180: fields containing the delimiter, quotes or line breaks are wrapped in
+ * double quotes, with quotes doubled.
+ * @param rows The rows, starting with the header row
+ * @param delimiter Field delimiter
+ * @returns string The CSV content with CRLF line breaks
+ */
+export function formatCsv(rows: string[][], delimiter: CsvDelimiter = ","): string {
+    const formatField = (field: string) =>
+        field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+    return rows.map(row => row.map(formatField).join(delimiter)).join("\r\n") + "\r\n"
+}
+
+function stripBom(content: string): string {
+    return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content
+}
@@ -0,0 +1,162 @@
+import { createIanaResolver, floatingResolver, ZoneResolver } from "./timezones"
+
+// How dates in the meetings file are written
+export enum DateFormat {
+    /** ISO 8601, or numeric dates whose day/month order is detected from the file */
+    Auto = "auto",
+    /** ISO 8601, e.g. "2026-10-20T09:00:00+02:00" */
+    Iso = "iso",
+    /** e.g. "20/10/2026 09:00" */
+    DayMonthYear = "dmy",
+    /** e.g. "10/20/2026 9:00 AM" */
+    MonthDayYear = "mdy",
+}
+
+// Date and optional time with an optional UTC offset, e.g. "2026-10-20T09:00:00.000+02:00" or "2026-10-20 09:00"
+const ISO_REGEX =
+    /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:[.,]\d+)?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i
+
+// Numeric date with an optional time, e.g. "20/10/2026 09:00:00", "10/20/2026 9:00 AM" or "20.10.2026 09:00"
+const NUMERIC_REGEX =
+    /^(\d{1,2})[/.,-]\s*(\d{1,2})[/.,-]\s*(\d{4}),?(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]M)?)?$/i
+
+/**
+ * Gets the resolver for times without a UTC offset.
+ * @param timeZone IANA time zone name (e.g. "Europe/Berlin"), or empty for the system time zone
+ * @returns ZoneResolver The resolver
+ */
+export function getZoneResolver(timeZone: string): ZoneResolver {
+    if (timeZone.trim() === "") {
+        return floatingResolver
+    }
+    const resolver = createIanaResolver(timeZone.trim())
+    if (!resolver) {
+        throw new Error(`Unknown time zone "${timeZone.trim()}". Use an IANA name such as "Europe/Berlin".`)
+    }
+    return resolver
+}
+
+/**
+ * Decides the day/month order of numeric dates for the "auto" format: a value whose first number is above 12
+ * means day first, one whose second number is above 12 means month first, and otherwise the system locale decides.
+ * @param format The configured format
+ * @param values Date values of the file
+ * @returns DateFormat The format to parse the file with (never Auto)
+ */
+export function resolveDateFormat(format: DateFormat, values: string[]): DateFormat {
+    if (format !== DateFormat.Auto) {
+        return format
+    }
+
+    for (const value of values) {
+        const match = value.trim().match(NUMERIC_REGEX)
+        if (match && parseInt(match[1]) > 12) {
+            return DateFormat.DayMonthYear
+        }
+        if (match && parseInt(match[2]) > 12) {
+            return DateFormat.MonthDayYear
+        }
+    }
+
+    return isLocaleDayFirst() ? DateFormat.DayMonthYear : DateFormat.MonthDayYear
+}
+
+// Checks whether the system locale writes the day before the month
+function isLocaleDayFirst(): boolean {
+    const parts = new Intl.DateTimeFormat().formatToParts(new Date(2026, 9, 20))
+    return parts.findIndex(part => part.type === "day") < parts.findIndex(part => part.type === "month")
+}
+
+// Gets a description of a format for error messages
+function getFormatLabel(format: DateFormat): string {
+    switch (format) {
+        case DateFormat.Iso:
+            return "ISO 8601 (YYYY-MM-DDTHH:MM)"
+        case DateFormat.DayMonthYear:
+            return "DD/MM/YYYY HH:MM"
+        case DateFormat.MonthDayYear:
+            return "MM/DD/YYYY HH:MM"
+        default:
+            return "ISO 8601 or a numeric date"
+    }
+}
+
+/**
+ * Parses a date/time from the meetings file strictly: ISO 8601 is always accepted, numeric dates only in the
+ * configured day/month order, and out-of-range values (e.g. 31/02) are rejected.
+ * @param value The raw date/time string
+ * @param format The format to expect (resolve Auto with resolveDateFormat first)
+ * @param resolve Resolver for times without a UTC offset
+ * @returns Date The parsed date
+ * @throws Error describing why the value is not a valid date
+ */
+export function parseStrictDate(value: string, format: DateFormat, resolve: ZoneResolver): Date {
+    const text = value.trim()
+    const invalid = () => new Error(`"${text}" is not a valid date (expected ${getFormatLabel(format)})`)
+
+    const iso = text.match(ISO_REGEX)
+    if (iso) {
+        const [, year, month, day, hour = "0", minute = "0", second = "0", offset] = iso
+        const wall = toWallTime(year, month, day, hour, minute, second)
+        if (wall === undefined) {
+            throw invalid()
+        }
+        return offset ? new Date(wall - parseOffsetMs(offset)) : resolve(wall)
+    }
+
+    const numeric = text.match(NUMERIC_REGEX)
+    if (numeric && format !== DateFormat.Iso) {
+        const [, first, second, year, rawHour = "0", minute = "0", seconds = "0", meridiem] = numeric
+        const [day, month] = format === DateFormat.MonthDayYear ? [second, first] : [first, second]
+        let hour = parseInt(rawHour)
+        if (meridiem) {
+            if (hour < 1 || hour > 12) {
+                throw invalid()
+            }
+            hour = (hour % 12) + (meridiem.toUpperCase() === "PM" ? 12 : 0)
+        }
+        const wall = toWallTime(year, month, day, String(hour), minute, seconds)
+        if (wall === undefined) {
+            throw invalid()
+        }
+        return resolve(wall)
+    }
+
+    throw invalid()
+}
+
+// Encodes a validated wall-clock time as UTC milliseconds, or returns undefined for out-of-range values
+function toWallTime(
+    year: string,
+    month: string,
+    day: string,
+    hour: string,
+    minute: string,
+    second: string,
+): number | undefined {
+    const values = [year, month, day, hour, minute, second].map(part => parseInt(part, 10))
+    const [y, mo, d, h, mi, s] = values
+    const wall = Date.UTC(y, mo - 1, d, h, mi, s)
+    const check = new Date(wall)
+    // Date.UTC rolls over out-of-range parts (e.g. February 31 becomes March 3), so compare them back
+    const valid =
+        check.getUTCFullYear() === y &&
+        check.getUTCMonth() === mo - 1 &&
+        check.getUTCDate() === d &&
+        h < 24 &&
+        mi < 60 &&
+        s < 60
+    return valid ? wall : undefined
+}
+
+// Parses a UTC offset ("Z", "+02:00", "-0530" or "+02") into milliseconds
+function parseOffsetMs(offset: string): number {
+    if (offset.toUpperCase() === "Z") {
+        return 0
+    }
+    const sign = offset.startsWith("-") ? -1 : 1
+    const digits = offset.slice(1).replace(":", "")
+    const hours = parseInt(digits.slice(0, 2), 10)
+    const minutes = digits.length > 2 ? parseInt(digits.slice(2), 10) : 0
+    return sign * (hours * 60 + minutes) * 60 * 1000
+}
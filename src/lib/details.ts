@@ -0,0 +1,86 @@
+// The user's response to a meeting invitation
+export enum ResponseStatus {
+    Organizer = "organizer",
+    Accepted = "accepted",
+    Tentative = "tentative",
+    Declined = "declined",
+    None = "none",
+}
+
+// Optional information about a meeting, shown in the detail pane
+export interface MeetingDetails {
+    organizer?: string
+    requiredAttendees?: string[]
+    optionalAttendees?: string[]
+    location?: string
+    responseStatus?: ResponseStatus
+    /** Plain-text start of the meeting body, without the join instructions */
+    bodyExcerpt?: string
+}
+
+// Longest body excerpt kept, in characters
+const MAX_EXCERPT_LENGTH = 500
+
+// Teams, Zoom and Webex invites append their join instructions after a line of underscores
+const JOIN_INSTRUCTIONS_SEPARATOR = /^\s*_{10,}\s*$/m
+
+/**
+ * Parses a response status written by the bundled script (e.g. "Accepted"), an Outlook olResponseStatus number
+ * or a Microsoft Graph response (e.g. "tentativelyAccepted").
+ * @param value The raw response status
+ * @returns ResponseStatus | undefined The status, or undefined if it isn't recognized
+ */
+export function parseResponseStatus(value: string): ResponseStatus | undefined {
+    switch (value.trim().toLowerCase()) {
+        case "organizer":
+        case "organized":
+        case "1":
+            return ResponseStatus.Organizer
+        case "accepted":
+        case "3":
+            return ResponseStatus.Accepted
+        case "tentative":
+        case "tentativelyaccepted":
+        case "2":
+            return ResponseStatus.Tentative
+        case "declined":
+        case "4":
+            return ResponseStatus.Declined
+        case "none":
+        case "notresponded":
+        case "0":
+        case "5":
+            return ResponseStatus.None
+        default:
+            return undefined
+    }
+}
+
+/**
+ * Splits a list of attendees as written by Outlook ("Ann Lee; Bob Stone").
+ * @param value The attendees separated by semicolons
+ * @returns string[] The attendee names
+ */
+export function parseAttendees(value: string): string[] {
+    return value
+        .split(";")
+        .map(attendee => attendee.trim())
+        .filter(attendee => attendee !== "")
+}
+
+/**
+ * Shortens a meeting body to the text before the join instructions, with blank lines collapsed.
+ * @param body The plain-text body
+ * @returns string | undefined The excerpt, or undefined if the body has no text of its own
+ */
+export function createBodyExcerpt(body: string): string | undefined {
+    const text = body
+        .split(JOIN_INSTRUCTIONS_SEPARATOR)[0]
+        .replace(/\r\n?/g, "\n")
+        .replace(/\n\s*\n+/g, "\n\n")
+        .trim()
+    if (text === "") {
+        return undefined
+    }
+    return text.length > MAX_EXCERPT_LENGTH ? `${text.slice(0, MAX_EXCERPT_LENGTH - 1).trimEnd()}…` : text
+}
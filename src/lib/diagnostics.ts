@@ -0,0 +1,421 @@
+import { readFile, stat } from "fs/promises"
+import { findMissingColumns, getField, normalizeHeader, parseCsv } from "./csv"
+import { getZoneResolver } from "./dates"
+import { isSignedInToGraph } from "./graph"
+import { parseIcsEvents } from "./ics"
+import { getProviderName, MeetingProvider, resolveMeetingLink } from "./links"
+import {
+    expandHomePath,
+    fetchMeetings,
+    fileExists,
+    formatDuration,
+    isIcsFile,
+    MeetingsWindow,
+    OPTIONAL_COLUMNS,
+    REQUIRED_COLUMNS,
+} from "./meetings"
+import {
+    DEFAULT_FUNCTION_NAME,
+    getBundledScriptCandidates,
+    getLastRefreshLog,
+    isPowerShellSupported,
+    isValidFunctionName,
+    RefreshOutcome,
+} from "./powershell"
+import { CalendarProvider, getAutoRefreshHours, getParseOptions, Preferences } from "./preferences"
+import { getMeetingSources, getPreferencesWindow, MeetingSource } from "./sources"
+
+// Result of a single setup check
+export enum CheckStatus {
+    Pass = "pass",
+    Warn = "warn",
+    Fail = "fail",
+}
+
+// A single setup check shown by Check Meetings Setup
+export interface SetupCheck {
+    title: string
+    status: CheckStatus
+    message: string
+    /** Additional lines, such as the rows a problem was found in */
+    details?: string[]
+    /** File the check is about, for the "Open" actions */
+    path?: string
+}
+
+// Checks about one part of the setup (e.g. a meetings file)
+export interface CheckGroup {
+    title: string
+    checks: SetupCheck[]
+}
+
+// At most this many rows are listed per check, so huge files don't flood the report
+const MAX_DETAIL_LINES = 20
+
+// Names of the delimiters detected in CSV files
+const DELIMITER_NAMES: Record<string, string> = { ";": "semicolon", ",": "comma", "\t": "tab" }
+
+/**
+ * Checks the whole setup: preferences, every meetings file, the PowerShell refresh and Microsoft Graph.
+ * Never throws: problems are reported as failed checks.
+ * @param preferences The extension's preferences
+ * @returns Promise<CheckGroup[]> The checks grouped by part of the setup
+ */
+export async function runSetupChecks(preferences: Preferences): Promise<CheckGroup[]> {
+    const window = getPreferencesWindow(preferences)
+    const groups: CheckGroup[] = [{ title: "Preferences", checks: checkPreferences(preferences) }]
+
+    for (const source of getMeetingSources(preferences)) {
+        if (source.id === "graph") {
+            groups.push({ title: source.name, checks: await checkGraph(preferences) })
+            continue
+        }
+
+        const rawPath = source.id === "main" ? preferences.meetingsFilePath?.trim() || "~/meetings.csv" : undefined
+        groups.push({
+            title: source.id === "main" ? "Meetings File" : `Additional Source: ${source.name}`,
+            checks: await checkMeetingsFile(source, rawPath, window, preferences),
+        })
+
+        // Also shown where the refresh isn't available, to explain why
+        if (source.id === "main" && !isIcsFile(source.location)) {
+            groups.push({ title: "PowerShell Refresh", checks: await checkPowerShell(preferences) })
+        }
+    }
+
+    return groups
+}
+
+// Checks the preferences that apply to every source
+function checkPreferences(preferences: Preferences): SetupCheck[] {
+    const checks: SetupCheck[] = []
+    const { timeZone, dateFormat, defaultDurationMinutes } = getParseOptions(preferences)
+
+    checks.push({
+        title: "Calendar Provider",
+        status: CheckStatus.Pass,
+        message: preferences.calendarProvider || CalendarProvider.File,
+    })
+
+    try {
+        getZoneResolver(timeZone)
+        checks.push({
+            title: "Time Zone",
+            status: CheckStatus.Pass,
+            message: timeZone.trim() || `System (${Intl.DateTimeFormat().resolvedOptions().timeZone})`,
+        })
+    } catch (error) {
+        checks.push({ title: "Time Zone", status: CheckStatus.Fail, message: getErrorMessage(error) })
+    }
+
+    checks.push({
+        title: "Date Format",
+        status: CheckStatus.Pass,
+        message: `${dateFormat}, meetings without an end last ${defaultDurationMinutes} min`,
+    })
+
+    const autoRefreshHours = getAutoRefreshHours(preferences)
+    checks.push({
+        title: "Auto-Refresh",
+        status: CheckStatus.Pass,
+        message: autoRefreshHours > 0 ? `Files older than ${autoRefreshHours} h are refreshed` : "Disabled",
+    })
+
+    return checks
+}
+
+/**
+ * Checks a meetings file: its path, age and contents.
+ * @param source The file source
+ * @param rawPath The path as written in the preferences, shown next to the expanded path
+ * @param window Range of time calendar events are expanded in
+ * @param preferences The extension's preferences
+ * @returns Promise<SetupCheck[]> The checks of the file
+ */
+async function checkMeetingsFile(
+    source: MeetingSource,
+    rawPath: string | undefined,
+    window: MeetingsWindow,
+    preferences: Preferences,
+): Promise<SetupCheck[]> {
+    const filePath = source.location
+    const pathMessage = rawPath && rawPath !== filePath ? `${rawPath} → ${filePath}` : filePath
+
+    if (!(await fileExists(filePath))) {
+        return [
+            {
+                title: "Path",
+                // Refreshable files are created on the next load
+                status: source.refresh ? CheckStatus.Warn : CheckStatus.Fail,
+                message: source.refresh
+                    ? `${pathMessage} does not exist yet; it is created by the PowerShell script on the next load`
+                    : source.id === "main" && !isIcsFile(filePath)
+                      ? `${pathMessage} does not exist; creating it with the PowerShell script needs Windows`
+                      : `${pathMessage} does not exist`,
+                path: filePath,
+            },
+        ]
+    }
+
+    const checks: SetupCheck[] = [{ title: "Path", status: CheckStatus.Pass, message: pathMessage, path: filePath }]
+    checks.push(await checkFileAge(source, getAutoRefreshHours(preferences)))
+
+    let content: string
+    try {
+        content = await readFile(filePath, "utf-8")
+    } catch (error) {
+        checks.push({ title: "Contents", status: CheckStatus.Fail, message: getErrorMessage(error), path: filePath })
+        return checks
+    }
+
+    if (isIcsFile(filePath)) {
+        checks.push(checkCalendarEvents(content, window))
+        return checks
+    }
+
+    const table = parseCsv(content)
+    const missing = findMissingColumns(table, REQUIRED_COLUMNS)
+    const absent = new Set(findMissingColumns(table, OPTIONAL_COLUMNS))
+    const optional = OPTIONAL_COLUMNS.filter(column => !absent.has(column))
+    const known = new Set([...REQUIRED_COLUMNS, ...OPTIONAL_COLUMNS].map(normalizeHeader))
+    const unknown = table.headers.filter(header => header !== "" && !known.has(normalizeHeader(header)))
+
+    checks.push({
+        title: "Delimiter",
+        status: CheckStatus.Pass,
+        message: `"${table.delimiter === "\t" ? "\\t" : table.delimiter}" (${DELIMITER_NAMES[table.delimiter]})`,
+    })
+    checks.push({
+        title: "Columns",
+        status: missing.length > 0 ? CheckStatus.Fail : CheckStatus.Pass,
+        message:
+            missing.length > 0
+                ? `Missing required column(s): ${missing.join(", ")}`
+                : `${table.headers.length} column(s): ${table.headers.join(", ")}`,
+        details: [
+            `Optional columns found: ${optional.join(", ") || "none"}`,
+            ...(unknown.length > 0 ? [`Ignored columns: ${unknown.join(", ")}`] : []),
+        ],
+    })
+    checks.push({
+        title: "Rows",
+        status: table.records.length > 0 ? CheckStatus.Pass : CheckStatus.Warn,
+        message: table.records.length > 0 ? `${table.records.length} row(s)` : "The file has no meetings",
+    })
+
+    if (missing.length > 0) {
+        return checks
+    }
+
+    try {
+        const { meetings, skippedRows } = await fetchMeetings(
+            filePath,
+            window,
+            source.name,
+            getParseOptions(preferences),
+        )
+        checks.push({
+            title: "Parse Failures",
+            status: skippedRows.length > 0 ? CheckStatus.Warn : CheckStatus.Pass,
+            message:
+                skippedRows.length > 0
+                    ? `${skippedRows.length} row(s) skipped, ${meetings.length} loaded`
+                    : `All ${meetings.length} row(s) loaded`,
+            details: limitDetails(skippedRows.map(row => `Line ${row.line}: ${row.reason}`)),
+            path: filePath,
+        })
+    } catch (error) {
+        checks.push({ title: "Parse Failures", status: CheckStatus.Fail, message: getErrorMessage(error) })
+    }
+
+    const unrecognized = table.records
+        .map(record => ({ line: record.line, link: getField(record, "TeamsLink") ?? "" }))
+        .filter(({ link }) => link !== "" && resolveMeetingLink(link).provider === MeetingProvider.Other)
+    checks.push({
+        title: "Join Links",
+        status: unrecognized.length > 0 ? CheckStatus.Warn : CheckStatus.Pass,
+        message:
+            unrecognized.length > 0
+                ? `${unrecognized.length} link(s) aren't recognized as Teams, Zoom, Google Meet or Webex join links`
+                : "All links are recognized join links",
+        details: limitDetails(unrecognized.map(({ line, link }) => `Line ${line}: ${link}`)),
+        path: filePath,
+    })
+
+    return checks
+}
+
+// Checks how old a meetings file is compared to the auto-refresh threshold
+async function checkFileAge(source: MeetingSource, autoRefreshHours: number): Promise<SetupCheck> {
+    let age: string
+    let stale: boolean
+    try {
+        const modified = (await stat(source.location)).mtime
+        age = `Modified ${formatAge(Date.now() - modified.getTime())} ago (${modified.toLocaleString()})`
+        stale = autoRefreshHours > 0 && (await source.isStale())
+    } catch (error) {
+        // E.g. no permission to read the file, or it was removed during the check
+        return { title: "File Age", status: CheckStatus.Fail, message: getErrorMessage(error), path: source.location }
+    }
+
+    if (!stale) {
+        return { title: "File Age", status: CheckStatus.Pass, message: age }
+    }
+    return {
+        title: "File Age",
+        status: CheckStatus.Warn,
+        message: source.refresh
+            ? `${age}; older than ${autoRefreshHours} h, so it is refreshed on the next load`
+            : `${age}; older than ${autoRefreshHours} h and this source can't be refreshed`,
+    }
+}
+
+// Checks the events of a calendar file within the loaded window
+function checkCalendarEvents(content: string, window: MeetingsWindow): SetupCheck {
+    try {
+        const events = parseIcsEvents(content, window.start, window.end)
+        const links = events.flatMap(event => (event.meetingLink ? [event.meetingLink] : []))
+        const providers = [...new Set(links.map(link => getProviderName(link.provider)))]
+        return {
+            title: "Calendar Events",
+            status: events.length > 0 && links.length === 0 ? CheckStatus.Warn : CheckStatus.Pass,
+            message:
+                `${events.length} event(s) in the loaded days, ${links.length} with a join link` +
+                (providers.length > 0 ? ` (${providers.join(", ")})` : ""),
+        }
+    } catch (error) {
+        return { title: "Calendar Events", status: CheckStatus.Fail, message: getErrorMessage(error) }
+    }
+}
+
+// Checks the script, function and last run of the PowerShell refresh
+async function checkPowerShell(preferences: Preferences): Promise<SetupCheck[]> {
+    const checks: SetupCheck[] = []
+    const customScript = preferences.powershellScriptPath?.trim()
+
+    if (customScript) {
+        const scriptPath = expandHomePath(customScript)
+        const found = await fileExists(scriptPath)
+        checks.push({
+            title: "Script",
+            status: found ? CheckStatus.Pass : CheckStatus.Fail,
+            message: found ? scriptPath : `${scriptPath} does not exist`,
+            path: scriptPath,
+        })
+    } else {
+        const candidates = getBundledScriptCandidates()
+        const found: boolean[] = await Promise.all(candidates.map(fileExists))
+        const index = found.indexOf(true)
+        checks.push({
+            title: "Script",
+            status: index >= 0 ? CheckStatus.Pass : CheckStatus.Fail,
+            message: index >= 0 ? `Bundled script: ${candidates[index]}` : "Bundled script not found",
+            details: candidates.map((candidate, i) => `${found[i] ? "found" : "missing"}: ${candidate}`),
+            path: index >= 0 ? candidates[index] : undefined,
+        })
+    }
+
+    const functionName = preferences.powershellFunctionName?.trim() || DEFAULT_FUNCTION_NAME
+    checks.push({
+        title: "Function",
+        status: isValidFunctionName(functionName) ? CheckStatus.Pass : CheckStatus.Fail,
+        message: isValidFunctionName(functionName)
+            ? functionName
+            : `"${functionName}" is not a valid function name (use letters, digits, "_" and "-")`,
+    })
+
+    if (!isPowerShellSupported()) {
+        checks.push({
+            title: "Platform",
+            status: CheckStatus.Warn,
+            message: `PowerShell refresh needs Windows (running on ${process.platform})`,
+        })
+    }
+
+    const log = await getLastRefreshLog()
+    if (!log) {
+        checks.push({ title: "Last Refresh", status: CheckStatus.Pass, message: "No refresh has run yet" })
+    } else {
+        const when = new Date(log.startedAt).toLocaleString()
+        checks.push({
+            title: "Last Refresh",
+            status: log.outcome === RefreshOutcome.Success ? CheckStatus.Pass : CheckStatus.Fail,
+            message:
+                log.outcome === RefreshOutcome.Success
+                    ? `Succeeded ${when} in ${(log.durationMs / 1000).toFixed(1)} s`
+                    : `${log.outcome} ${when}: ${log.error || "see the last refresh log"}`,
+        })
+    }
+
+    return checks
+}
+
+// Checks the app registration and sign-in for Microsoft Graph
+async function checkGraph(preferences: Preferences): Promise<SetupCheck[]> {
+    const clientId = preferences.graphClientId?.trim()
+    const checks: SetupCheck[] = [
+        {
+            title: "Client ID",
+            status: clientId ? CheckStatus.Pass : CheckStatus.Fail,
+            message: clientId
+                ? `${clientId} (tenant: ${preferences.graphTenantId?.trim() || "common"})`
+                : "Set the Microsoft Client ID preference to load meetings from Microsoft 365",
+        },
+    ]
+
+    try {
+        const signedIn = await isSignedInToGraph()
+        checks.push({
+            title: "Sign-In",
+            status: signedIn ? CheckStatus.Pass : CheckStatus.Warn,
+            message: signedIn ? "Signed in" : "Not signed in; open Find Teams Meetings to sign in",
+        })
+    } catch (error) {
+        checks.push({ title: "Sign-In", status: CheckStatus.Fail, message: getErrorMessage(error) })
+    }
+
+    return checks
+}
+
+/**
+ * Renders the checks as a Markdown report to paste into a bug report.
+ * @param groups The checks
+ * @param generatedAt When the checks were run
+ * @returns string The report
+ */
+export function formatSetupReport(groups: CheckGroup[], generatedAt: Date = new Date()): string {
+    const lines = [
+        "# Meetings Setup Report",
+        "",
+        `Generated: ${generatedAt.toISOString()}`,
+        `Platform: ${process.platform}`,
+    ]
+
+    for (const group of groups) {
+        lines.push("", `## ${group.title}`, "")
+        for (const check of group.checks) {
+            lines.push(`- [${check.status.toUpperCase()}] ${check.title}: ${check.message}`)
+            check.details?.forEach(detail => lines.push(`    - ${detail}`))
+        }
+    }
+
+    return lines.join("\n")
+}
+
+// Keeps the first lines of a detail list, noting how many were left out
+function limitDetails(lines: string[]): string[] {
+    if (lines.length <= MAX_DETAIL_LINES) {
+        return lines
+    }
+    return [...lines.slice(0, MAX_DETAIL_LINES), `…and ${lines.length - MAX_DETAIL_LINES} more`]
+}
+
+// Formats the age of a file, in days once it is older than two days
+function formatAge(milliseconds: number): string {
+    const days = Math.floor(milliseconds / (24 * 60 * 60 * 1000))
+    return days >= 2 ? `${days} days` : formatDuration(milliseconds)
+}
+
+function getErrorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error)
+}
@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from "fs/promises"
+import { homedir } from "os"
+import { join } from "path"
+
+/**
+ * Formats a date for file names, e.g. "2026-10-19" in local time.
+ * @param date The date
+ * @returns string The date as YYYY-MM-DD
+ */
+export function formatFileDate(date: Date): string {
+    return [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+        .map(part => String(part).padStart(2, "0"))
+        .join("-")
+}
+
+/**
+ * Saves an exported file in the Downloads folder, creating the folder if needed and replacing a file of the same name.
+ * @param fileName The file name, e.g. "meetings-2026-10-19.ics"
+ * @param content The file content
+ * @returns Promise<string> The path of the saved file
+ */
+export async function saveToDownloads(fileName: string, content: string): Promise<string> {
+    const folder = join(homedir(), "Downloads")
+    await mkdir(folder, { recursive: true })
+    const filePath = join(folder, fileName)
+    await writeFile(filePath, content)
+    return filePath
+}
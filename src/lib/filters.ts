@@ -0,0 +1,219 @@
+import { LocalStorage } from "@raycast/api"
+import { randomUUID } from "crypto"
+import { getProviderName } from "./links"
+import { MeetingInfo } from "./meetings"
+import { parseTimeOfDay } from "./schedule"
+
+// Filter options for meetings
+export enum FilterOption {
+    All = "all",
+    /** All meetings, including those hidden by rules */
+    IncludingHidden = "including-hidden",
+    UpcomingAndActive = "upcoming-active",
+    Today = "today",
+    Tomorrow = "tomorrow",
+    /** Monday to Sunday of the current week */
+    ThisWeek = "this-week",
+    /** Today and the six days after it */
+    Next7Days = "next-7-days",
+    /** Only the meetings passed in the launch context (e.g. overlapping meetings from Join Next Meeting) */
+    Selected = "selected",
+}
+
+// A named combination of a filter option and a search query, shown in the filter dropdown
+export interface FilterPreset {
+    id: string
+    name: string
+    filter: FilterOption
+    /** Search query in the syntax of parseSearchQuery, e.g. "provider:zoom before:14:00" */
+    query: string
+}
+
+// A field-scoped search term, e.g. "org:alice"
+interface FieldTerm {
+    field: SearchField
+    value: string
+}
+
+// A parsed search query: every text and field term must match
+export interface SearchQuery {
+    texts: string[]
+    fields: FieldTerm[]
+}
+
+// Fields that can be searched with "field:value", with their aliases
+enum SearchField {
+    Organizer = "organizer",
+    Attendee = "attendee",
+    Provider = "provider",
+    Source = "source",
+    Location = "location",
+    Response = "response",
+    Before = "before",
+    After = "after",
+}
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+    org: SearchField.Organizer,
+    organizer: SearchField.Organizer,
+    attendee: SearchField.Attendee,
+    with: SearchField.Attendee,
+    provider: SearchField.Provider,
+    source: SearchField.Source,
+    location: SearchField.Location,
+    loc: SearchField.Location,
+    response: SearchField.Response,
+    before: SearchField.Before,
+    after: SearchField.After,
+}
+
+// LocalStorage key of the saved filter presets
+const FILTER_PRESETS_KEY = "filterPresets"
+
+// A search token: "field:value", "field:"quoted value"", "quoted text" or a single word
+const TOKEN_REGEX = /(?:(\w+):)?(?:"([^"]*)"?|(\S*))/g
+
+/**
+ * Parses a search query such as `standup org:alice provider:zoom before:14:00`. Words without a known field
+ * are matched against the subject, organizer and location.
+ * @param query The text typed in the search bar
+ * @returns SearchQuery The text and field terms
+ */
+export function parseSearchQuery(query: string): SearchQuery {
+    const result: SearchQuery = { texts: [], fields: [] }
+
+    for (const match of query.matchAll(TOKEN_REGEX)) {
+        const [token, key, quoted, word] = match
+        const value = (quoted ?? word ?? "").trim().toLowerCase()
+        const field = key ? FIELD_ALIASES[key.toLowerCase()] : undefined
+        if (field) {
+            // Ignore a field that has no value yet (e.g. while typing "org:")
+            if (value !== "") {
+                result.fields.push({ field, value })
+            }
+        } else if (token.trim() !== "") {
+            result.texts.push(token.replace(/"/g, "").trim().toLowerCase())
+        }
+    }
+
+    return result
+}
+
+// Checks whether a meeting matches a single field term
+function matchesField(meeting: MeetingInfo, { field, value }: FieldTerm): boolean {
+    const includes = (text?: string) => (text ?? "").toLowerCase().includes(value)
+
+    switch (field) {
+        case SearchField.Organizer:
+            return includes(meeting.organizer)
+        case SearchField.Attendee:
+            return [...(meeting.requiredAttendees ?? []), ...(meeting.optionalAttendees ?? [])].some(includes)
+        case SearchField.Provider:
+            return (
+                includes(meeting.provider) ||
+                getProviderName(meeting.provider).toLowerCase().replace(/\s/g, "").includes(value.replace(/\s/g, ""))
+            )
+        case SearchField.Source:
+            return includes(meeting.source)
+        case SearchField.Location:
+            return includes(meeting.location)
+        case SearchField.Response:
+            return includes(meeting.responseStatus)
+        case SearchField.Before:
+        case SearchField.After: {
+            const minutes = parseTimeOfDay(value)
+            // An incomplete or invalid time doesn't filter anything
+            if (minutes === undefined) {
+                return true
+            }
+            const start = meeting.parsedDate.getHours() * 60 + meeting.parsedDate.getMinutes()
+            return field === SearchField.Before ? start < minutes : start >= minutes
+        }
+    }
+}
+
+/**
+ * Checks whether a meeting matches a search query.
+ * @param meeting The meeting
+ * @param query The parsed query
+ * @returns boolean True if every term matches
+ */
+export function matchesSearchQuery(meeting: MeetingInfo, query: SearchQuery): boolean {
+    const text = [meeting.Subject, meeting.organizer, meeting.location].join(" ").toLowerCase()
+    return query.texts.every(term => text.includes(term)) && query.fields.every(term => matchesField(meeting, term))
+}
+
+/**
+ * Gets the range of time a date filter option covers.
+ * @param option The filter option
+ * @param now The current time
+ * @returns The start (inclusive) and end (exclusive) of the range, or undefined for options without a date range
+ */
+export function getFilterRange(option: FilterOption, now: Date): { start: Date; end: Date } | undefined {
+    const today = new Date(now)
+    today.setHours(0, 0, 0, 0)
+    const addDays = (date: Date, days: number) => {
+        const result = new Date(date)
+        result.setDate(result.getDate() + days)
+        return result
+    }
+
+    switch (option) {
+        case FilterOption.Today:
+            return { start: today, end: addDays(today, 1) }
+        case FilterOption.Tomorrow:
+            return { start: addDays(today, 1), end: addDays(today, 2) }
+        case FilterOption.ThisWeek: {
+            // getDay() is 0 for Sunday, which belongs to the week that started the Monday before
+            const monday = addDays(today, -((today.getDay() + 6) % 7))
+            return { start: monday, end: addDays(monday, 7) }
+        }
+        case FilterOption.Next7Days:
+            return { start: today, end: addDays(today, 7) }
+        default:
+            return undefined
+    }
+}
+
+/**
+ * Reads the saved filter presets.
+ * @returns Promise<FilterPreset[]> The presets in the order they were saved
+ */
+export async function getFilterPresets(): Promise<FilterPreset[]> {
+    const value = await LocalStorage.getItem<string>(FILTER_PRESETS_KEY)
+    if (!value) {
+        return []
+    }
+
+    try {
+        return JSON.parse(value) as FilterPreset[]
+    } catch (error) {
+        // Unreadable presets are treated like none and overwritten by the next saved filter
+        console.error("Ignoring invalid saved filters:", error)
+        return []
+    }
+}
+
+/**
+ * Saves a filter option and search query under a name.
+ * @param name The name shown in the dropdown
+ * @param filter The filter option
+ * @param query The search query
+ * @returns Promise<FilterPreset> The new preset
+ */
+export async function saveFilterPreset(name: string, filter: FilterOption, query: string): Promise<FilterPreset> {
+    const preset: FilterPreset = { id: randomUUID(), name: name.trim(), filter, query: query.trim() }
+    await LocalStorage.setItem(FILTER_PRESETS_KEY, JSON.stringify([...(await getFilterPresets()), preset]))
+    return preset
+}
+
+/**
+ * Removes a saved filter preset.
+ * @param id The preset's identifier
+ * @returns Promise<FilterPreset[]> The remaining presets
+ */
+export async function removeFilterPreset(id: string): Promise<FilterPreset[]> {
+    const presets = (await getFilterPresets()).filter(preset => preset.id !== id)
+    await LocalStorage.setItem(FILTER_PRESETS_KEY, JSON.stringify(presets))
+    return presets
+}
@@ -0,0 +1,244 @@
+import { environment, LaunchType, OAuth } from "@raycast/api"
+import { createBodyExcerpt, MeetingDetails, parseResponseStatus } from "./details"
+import { findMeetingLink } from "./links"
+import { createMeeting, MeetingInfo, MeetingsWindow } from "./meetings"
+
+// Default Microsoft Graph endpoint; overridable to test against a mock server
+export const DEFAULT_GRAPH_BASE_URL = "https://graph.microsoft.com/v1.0"
+
+// Permissions requested when signing in (offline_access is required to receive a refresh token)
+const GRAPH_SCOPES = "openid offline_access Calendars.Read"
+
+// Number of events requested per page of calendarView results
+const PAGE_SIZE = 50
+
+// Settings of the Azure app registration and Graph endpoint used to load meetings
+export interface GraphConfig {
+    clientId: string
+    /** Directory (tenant) ID or one of "common" / "organizations" */
+    tenantId: string
+    baseUrl: string
+}
+
+// The subset of a Graph event resource that is requested with $select
+interface GraphEvent {
+    subject?: string
+    isCancelled?: boolean
+    start: { dateTime: string; timeZone: string }
+    end: { dateTime: string; timeZone: string }
+    onlineMeeting?: { joinUrl?: string } | null
+    location?: { displayName?: string }
+    bodyPreview?: string
+    organizer?: { emailAddress?: GraphEmailAddress }
+    attendees?: { type?: "required" | "optional" | "resource"; emailAddress?: GraphEmailAddress }[]
+    responseStatus?: { response?: string }
+}
+
+// Name and address of an organizer or attendee
+interface GraphEmailAddress {
+    name?: string
+    address?: string
+}
+
+// A page of calendarView results
+interface GraphEventPage {
+    value: GraphEvent[]
+    "@odata.nextLink"?: string
+}
+
+const client = new OAuth.PKCEClient({
+    redirectMethod: OAuth.RedirectMethod.Web,
+    providerName: "Microsoft",
+    providerIcon: "Icon.png",
+    providerId: "microsoft",
+    description: "Connect your Microsoft account to load Teams meetings from your calendar.",
+})
+
+// Base URL of the Microsoft identity platform endpoints for a tenant
+function getAuthorityUrl(config: GraphConfig): string {
+    return `https://login.microsoftonline.com/${encodeURIComponent(config.tenantId || "common")}/oauth2/v2.0`
+}
+
+/**
+ * Returns a valid access token, refreshing an expired token or signing the user in when needed.
+ * @param config The app registration settings
+ * @returns Promise<string> The access token
+ */
+async function getAccessToken(config: GraphConfig): Promise<string> {
+    const tokenSet = await client.getTokens()
+
+    if (tokenSet?.accessToken) {
+        if (!tokenSet.isExpired()) {
+            return tokenSet.accessToken
+        }
+        if (tokenSet.refreshToken) {
+            const tokens = await requestTokens(config, {
+                grant_type: "refresh_token",
+                refresh_token: tokenSet.refreshToken,
+            })
+            // Keep the current refresh token when the response doesn't include a new one
+            await client.setTokens({ ...tokens, refresh_token: tokens.refresh_token ?? tokenSet.refreshToken })
+            return tokens.access_token
+        }
+    }
+
+    // Signing in opens the browser, which is only possible from a command the user launched
+    if (environment.launchType === LaunchType.Background) {
+        throw new Error("Not signed in to Microsoft. Open Find Teams Meetings to sign in.")
+    }
+
+    const authRequest = await client.authorizationRequest({
+        endpoint: `${getAuthorityUrl(config)}/authorize`,
+        clientId: config.clientId,
+        scope: GRAPH_SCOPES,
+    })
+    const { authorizationCode } = await client.authorize(authRequest)
+    const tokens = await requestTokens(config, {
+        grant_type: "authorization_code",
+        code: authorizationCode,
+        code_verifier: authRequest.codeVerifier,
+        redirect_uri: authRequest.redirectURI,
+    })
+    await client.setTokens(tokens)
+    return tokens.access_token
+}
+
+/**
+ * Calls the token endpoint of the Microsoft identity platform.
+ * @param config The app registration settings
+ * @param params Grant-specific form parameters
+ * @returns Promise<OAuth.TokenResponse> The token response
+ */
+async function requestTokens(config: GraphConfig, params: Record<string, string>): Promise<OAuth.TokenResponse> {
+    const response = await fetch(`${getAuthorityUrl(config)}/token`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({ client_id: config.clientId, scope: GRAPH_SCOPES, ...params }).toString(),
+    })
+
+    if (!response.ok) {
+        console.error("Token request failed:", await response.text())
+        // A rejected refresh token can't be used again, so force a new sign-in next time
+        await client.removeTokens()
+        throw new Error(`Microsoft sign-in failed (${response.status} ${response.statusText})`)
+    }
+
+    return (await response.json()) as OAuth.TokenResponse
+}
+
+/**
+ * Checks whether Microsoft tokens are stored (they may still need to be refreshed).
+ * @returns Promise<boolean> True if the user has signed in
+ */
+export async function isSignedInToGraph(): Promise<boolean> {
+    const tokenSet = await client.getTokens()
+    return Boolean(tokenSet?.accessToken)
+}
+
+/**
+ * Signs the user out by removing the stored Microsoft tokens.
+ */
+export async function signOutOfGraph() {
+    await client.removeTokens()
+}
+
+/**
+ * Loads the Teams meetings of the signed-in user from Microsoft Graph /me/calendarView, following all pages.
+ * @param config The app registration settings and Graph base URL
+ * @param window Range of time to load meetings for
+ * @param source Name of the source, recorded on every meeting
+ * @returns Promise<MeetingInfo[]> The meetings sorted by start time
+ */
+export async function fetchGraphMeetings(
+    config: GraphConfig,
+    window: MeetingsWindow,
+    source: string,
+): Promise<MeetingInfo[]> {
+    if (!config.clientId) {
+        throw new Error("Set the Microsoft Graph Client ID preference to load meetings from Microsoft 365")
+    }
+
+    const accessToken = await getAccessToken(config)
+    const query = new URLSearchParams({
+        startDateTime: window.start.toISOString(),
+        endDateTime: window.end.toISOString(),
+        $select: "subject,start,end,isCancelled,onlineMeeting,location,bodyPreview,organizer,attendees,responseStatus",
+        $orderby: "start/dateTime",
+        $top: String(PAGE_SIZE),
+    })
+
+    const events: GraphEvent[] = []
+    let url: string | undefined = `${config.baseUrl.replace(/\/+$/, "")}/me/calendarView?${query}`
+
+    while (url) {
+        const response = await fetch(url, {
+            headers: {
+                Authorization: `Bearer ${accessToken}`,
+                // Return all times in UTC so they can be parsed without time zone lookups
+                Prefer: 'outlook.timezone="UTC"',
+            },
+        })
+
+        if (response.status === 401) {
+            await client.removeTokens()
+            throw new Error("Microsoft session expired. Reload to sign in again.")
+        }
+        if (!response.ok) {
+            const body = await response.text()
+            console.error("Graph request failed:", body)
+            throw new Error(`Microsoft Graph request failed (${response.status} ${response.statusText})`)
+        }
+
+        const page = (await response.json()) as GraphEventPage
+        events.push(...page.value)
+        url = page["@odata.nextLink"]
+    }
+
+    return events
+        .filter(event => !event.isCancelled)
+        .map(event => ({ event, link: getEventLink(event) }))
+        .filter(({ link }) => link)
+        .map(({ event, link }) =>
+            createMeeting(
+                {
+                    subject: event.subject || "(No subject)",
+                    link: link ?? "",
+                    start: parseGraphDate(event.start),
+                    end: parseGraphDate(event.end),
+                    details: getEventDetails(event),
+                },
+                source,
+            ),
+        )
+        .sort((a, b) => a.parsedDate.getTime() - b.parsedDate.getTime())
+}
+
+// Uses the Teams join URL of online meetings, or a Zoom/Meet/Webex link from the location or body
+function getEventLink(event: GraphEvent): string | undefined {
+    return (
+        event.onlineMeeting?.joinUrl ??
+        findMeetingLink(`${event.location?.displayName ?? ""} ${event.bodyPreview ?? ""}`)?.url
+    )
+}
+
+// Reads the organizer, attendees, location, the user's response and a body excerpt of an event
+function getEventDetails(event: GraphEvent): MeetingDetails {
+    const getName = (email?: GraphEmailAddress) => email?.name || email?.address || ""
+    const attendees = event.attendees ?? []
+    const requiredAttendees = attendees.filter(a => a.type === "required").map(a => getName(a.emailAddress))
+    const optionalAttendees = attendees.filter(a => a.type === "optional").map(a => getName(a.emailAddress))
+
+    return {
+        organizer: getName(event.organizer?.emailAddress) || undefined,
+        requiredAttendees: requiredAttendees.length > 0 ? requiredAttendees : undefined,
+        optionalAttendees: optionalAttendees.length > 0 ? optionalAttendees : undefined,
+        location: event.location?.displayName || undefined,
+        responseStatus: event.responseStatus?.response ? parseResponseStatus(event.responseStatus.response) : undefined,
+        bodyExcerpt: createBodyExcerpt(event.bodyPreview ?? ""),
+    }
+}
+
+// Parses a Graph dateTimeTimeZone value returned in UTC (e.g. "2026-10-20T09:00:00.0000000")
+function parseGraphDate(value: GraphEvent["start"]): Date {
+    return new Date(/(Z|[+-]\d{2}:\d{2})$/i.test(value.dateTime) ? value.dateTime : `${value.dateTime}Z`)
+}
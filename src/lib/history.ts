@@ -0,0 +1,153 @@
+import { LocalStorage } from "@raycast/api"
+import { randomUUID } from "crypto"
+import { formatCsv } from "./csv"
+import { formatFileDate } from "./downloads"
+import { MeetingLink, MeetingProvider } from "./links"
+import { MeetingInfo } from "./meetings"
+
+// The meeting being joined, as recorded in the join history
+export interface JoinedMeeting {
+    subject: string
+    /** Scheduled start and end; unknown for meetings joined by link or ID */
+    scheduledStart?: Date
+    scheduledEnd?: Date
+    /** Name of the source the meeting was loaded from, e.g. "Meetings File" or "Link or ID" */
+    source: string
+}
+
+// A join made through openTeamsLink
+export interface JoinRecord {
+    id: string
+    subject: string
+    url: string
+    provider: MeetingProvider
+    /** Scheduled start and end in ms, if known */
+    scheduledStart?: number
+    scheduledEnd?: number
+    /** Time the meeting was joined, in ms */
+    joinedAt: number
+    source: string
+}
+
+// LocalStorage key of the join history
+const JOIN_HISTORY_KEY = "joinHistory"
+
+// Joins are forgotten after this long, and only the most recent ones are kept
+const HISTORY_RETENTION_MS = 365 * 24 * 60 * 60 * 1000
+const MAX_HISTORY_ENTRIES = 2000
+
+// Joins less than this long after the scheduled start don't count as late
+const LATE_THRESHOLD_MINUTES = 1
+
+/**
+ * Describes a meeting from the list for the join history.
+ * @param meeting The meeting
+ * @returns JoinedMeeting The subject, scheduled time and source
+ */
+export function getJoinedMeeting(meeting: MeetingInfo): JoinedMeeting {
+    return {
+        subject: meeting.Subject,
+        scheduledStart: meeting.parsedDate,
+        scheduledEnd: meeting.endDate,
+        source: meeting.source,
+    }
+}
+
+/**
+ * Reads the join history, dropping joins older than a year.
+ * @returns Promise<JoinRecord[]> The joins, most recent first
+ */
+export async function getJoinHistory(): Promise<JoinRecord[]> {
+    const value = await LocalStorage.getItem<string>(JOIN_HISTORY_KEY)
+    let records: JoinRecord[] = []
+    try {
+        records = value ? (JSON.parse(value) as JoinRecord[]) : []
+    } catch (error) {
+        // An unreadable history is treated like an empty one and overwritten by the next join
+        console.error("Ignoring invalid join history:", error)
+    }
+    const cutoff = Date.now() - HISTORY_RETENTION_MS
+    return records.filter(record => record.joinedAt >= cutoff)
+}
+
+/**
+ * Adds a join to the history.
+ * @param meeting The meeting that was joined
+ * @param link The join link that was opened
+ */
+export async function recordJoin(meeting: JoinedMeeting, link: MeetingLink) {
+    const record: JoinRecord = {
+        id: randomUUID(),
+        subject: meeting.subject,
+        url: link.url,
+        provider: link.provider,
+        scheduledStart: meeting.scheduledStart?.getTime(),
+        scheduledEnd: meeting.scheduledEnd?.getTime(),
+        joinedAt: Date.now(),
+        source: meeting.source,
+    }
+    const records = [record, ...(await getJoinHistory())].slice(0, MAX_HISTORY_ENTRIES)
+    await LocalStorage.setItem(JOIN_HISTORY_KEY, JSON.stringify(records))
+}
+
+/**
+ * Removes a join from the history.
+ * @param id The join's identifier
+ * @returns Promise<JoinRecord[]> The remaining joins
+ */
+export async function removeJoinRecord(id: string): Promise<JoinRecord[]> {
+    const records = (await getJoinHistory()).filter(record => record.id !== id)
+    await LocalStorage.setItem(JOIN_HISTORY_KEY, JSON.stringify(records))
+    return records
+}
+
+/**
+ * Removes all joins from the history.
+ */
+export async function clearJoinHistory() {
+    await LocalStorage.removeItem(JOIN_HISTORY_KEY)
+}
+
+/**
+ * Gets how late a meeting was joined.
+ * @param record The join
+ * @returns number | undefined Whole minutes after the scheduled start, or undefined if the meeting was joined on
+ * time, early or has no scheduled start
+ */
+export function getLateMinutes(record: JoinRecord): number | undefined {
+    if (record.scheduledStart === undefined) {
+        return undefined
+    }
+    const minutes = Math.floor((record.joinedAt - record.scheduledStart) / (60 * 1000))
+    return minutes >= LATE_THRESHOLD_MINUTES ? minutes : undefined
+}
+
+// Formats a time as "2026-10-19 09:00" in local time for CSV exports
+function formatCsvDateTime(time: number | undefined): string {
+    if (time === undefined) {
+        return ""
+    }
+    const date = new Date(time)
+    const clock = [date.getHours(), date.getMinutes()].map(part => String(part).padStart(2, "0")).join(":")
+    return `${formatFileDate(date)} ${clock}`
+}
+
+/**
+ * Writes the join history as CSV.
+ * @param records The joins
+ * @returns string The CSV content with a header row
+ */
+export function formatHistoryCsv(records: JoinRecord[]): string {
+    return formatCsv([
+        ["Subject", "ScheduledStart", "ScheduledEnd", "JoinedAt", "LateMinutes", "Source", "Link"],
+        ...records.map(record => [
+            record.subject,
+            formatCsvDateTime(record.scheduledStart),
+            formatCsvDateTime(record.scheduledEnd),
+            formatCsvDateTime(record.joinedAt),
+            String(getLateMinutes(record) ?? 0),
+            record.source,
+            record.url,
+        ]),
+    ])
+}
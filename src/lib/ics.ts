@@ -0,0 +1,633 @@
+import { createBodyExcerpt, MeetingDetails } from "./details"
+import { findMeetingLink, MeetingLink } from "./links"
+import { createIanaResolver, floatingResolver, ZoneResolver } from "./timezones"
+
+// A property of an iCalendar component, e.g. "DTSTART;TZID=Europe/Berlin:20261020T090000"
+interface IcsProperty {
+    name: string
+    params: Record<string, string>
+    value: string
+}
+
+// A BEGIN/END block of an iCalendar file (VCALENDAR, VEVENT, VTIMEZONE, ...)
+interface IcsComponent {
+    type: string
+    properties: IcsProperty[]
+    components: IcsComponent[]
+}
+
+// A date/time property resolved against its time zone
+interface IcsDateTime {
+    /** Wall-clock time in the event's zone, encoded as UTC milliseconds */
+    wall: number
+    date: Date
+    allDay: boolean
+    resolve: ZoneResolver
+}
+
+// A parsed RRULE
+interface RecurrenceRule {
+    freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY"
+    interval: number
+    count?: number
+    until?: Date
+    byDay: { weekday: number; ordinal?: number }[]
+    byMonthDay: number[]
+    byMonth: number[]
+    bySetPos: number[]
+    weekStart: number
+}
+
+// A single (possibly expanded) calendar event
+export interface CalendarEvent {
+    uid: string
+    subject: string
+    start: Date
+    /** Undefined when the event has neither DTEND nor DURATION */
+    end?: Date
+    allDay: boolean
+    /** Meeting join link found in the event, if any */
+    meetingLink?: MeetingLink
+    /** Organizer, attendees, location and description excerpt */
+    details: MeetingDetails
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+
+// Upper bound on recurrence periods visited per rule, to protect against runaway rules
+const MAX_RECURRENCE_PERIODS = 50000
+
+// Properties searched for a meeting join link, in order of preference
+const LINK_PROPERTIES = ["X-MICROSOFT-SKYPETEAMSMEETINGURL", "URL", "LOCATION", "DESCRIPTION", "X-ALT-DESC"]
+
+/**
+ * Parses an iCalendar file and returns its events within a time range, expanding recurring events
+ * (RRULE, RDATE, EXDATE and moved occurrences via RECURRENCE-ID).
+ * @param content Raw .ics file content
+ * @param rangeStart Start of the range (events ending before it are dropped)
+ * @param rangeEnd End of the range (events starting after it are dropped)
+ * @returns CalendarEvent[] Events overlapping the range, sorted by start time
+ */
+export function parseIcsEvents(content: string, rangeStart: Date, rangeEnd: Date): CalendarEvent[] {
+    const root = parseComponents(content)
+    const calendars = root.components.filter(c => c.type === "VCALENDAR")
+    const timezones = new Map<string, ZoneResolver>()
+    const vevents: IcsComponent[] = []
+
+    for (const calendar of calendars) {
+        for (const component of calendar.components) {
+            if (component.type === "VTIMEZONE") {
+                const tzid = getProperty(component, "TZID")?.value
+                if (tzid) {
+                    timezones.set(tzid, createVTimezoneResolver(component))
+                }
+            } else if (component.type === "VEVENT") {
+                vevents.push(component)
+            }
+        }
+    }
+
+    // Occurrences replaced by a RECURRENCE-ID override, keyed by UID and original start time
+    const overridden = new Set<string>()
+    for (const vevent of vevents) {
+        const uid = getProperty(vevent, "UID")?.value ?? ""
+        const recurrenceId = getProperty(vevent, "RECURRENCE-ID")
+        const original = recurrenceId && parseDateTime(recurrenceId, timezones)
+        if (original) {
+            overridden.add(`${uid}|${original.date.getTime()}`)
+        }
+    }
+
+    const events: CalendarEvent[] = []
+    for (const vevent of vevents) {
+        if (getProperty(vevent, "STATUS")?.value.toUpperCase() === "CANCELLED") {
+            continue
+        }
+
+        const dtStartProperty = getProperty(vevent, "DTSTART")
+        const start = dtStartProperty && parseDateTime(dtStartProperty, timezones)
+        if (!start) {
+            continue
+        }
+
+        const uid = getProperty(vevent, "UID")?.value ?? ""
+        const subject = unescapeText(getProperty(vevent, "SUMMARY")?.value ?? "")
+        const meetingLink = findEventMeetingLink(vevent)
+        const details = getEventDetails(vevent)
+        const durationMs = getDurationMs(vevent, start, timezones)
+
+        const rruleProperty = getProperty(vevent, "RRULE")
+        const rdateProperties = getProperties(vevent, "RDATE")
+        const isOverride = !!getProperty(vevent, "RECURRENCE-ID")
+        let starts: Date[] = [start.date]
+
+        // RDATE adds occurrences with or without an RRULE
+        if ((rruleProperty || rdateProperties.length > 0) && !isOverride) {
+            let ruleStarts = [start.date]
+            if (rruleProperty) {
+                const rule = parseRecurrenceRule(rruleProperty.value, start.resolve)
+                // Expand a day past the range end in wall time so zone offsets can't cut off the last occurrence
+                const rangeEndWall = rangeEnd.getTime() + DAY_MS
+                ruleStarts = expandRecurrence(start.wall, rule, rangeEndWall, start.resolve).map(start.resolve)
+            }
+            const rdates = rdateProperties.flatMap(p => parseDateTimeList(p, timezones))
+            const exdates = new Set(
+                getProperties(vevent, "EXDATE")
+                    .flatMap(p => parseDateTimeList(p, timezones))
+                    .map(d => d.getTime()),
+            )
+
+            // An RDATE that repeats DTSTART or a rule occurrence is only counted once
+            const seen = new Set<number>()
+            starts = [...ruleStarts, ...rdates].filter(d => {
+                const time = d.getTime()
+                const keep = !seen.has(time) && !exdates.has(time) && !overridden.has(`${uid}|${time}`)
+                seen.add(time)
+                return keep
+            })
+        }
+
+        for (const occurrenceStart of starts) {
+            const end = durationMs !== undefined ? new Date(occurrenceStart.getTime() + durationMs) : undefined
+            const effectiveEnd = end ?? occurrenceStart
+            if (effectiveEnd < rangeStart || occurrenceStart > rangeEnd) {
+                continue
+            }
+            events.push({ uid, subject, start: occurrenceStart, end, allDay: start.allDay, meetingLink, details })
+        }
+    }
+
+    return events.sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+/**
+ * Parses the component tree of an iCalendar file, unfolding continuation lines first.
+ * @param content Raw .ics file content
+ * @returns IcsComponent A synthetic root component containing the top-level components
+ */
+function parseComponents(content: string): IcsComponent {
+    const root: IcsComponent = { type: "ROOT", properties: [], components: [] }
+    const stack: IcsComponent[] = [root]
+    const lines = content
+        .replace(/^\uFEFF/, "")
+        .replace(/\r?\n[ \t]/g, "")
+        .split(/\r?\n/)
+
+    for (const line of lines) {
+        if (!line.trim()) {
+            continue
+        }
+        const property = parseContentLine(line)
+        if (!property) {
+            continue
+        }
+
+        const current = stack[stack.length - 1]
+        if (property.name === "BEGIN") {
+            const component: IcsComponent = { type: property.value.toUpperCase(), properties: [], components: [] }
+            current.components.push(component)
+            stack.push(component)
+        } else if (property.name === "END") {
+            if (stack.length > 1) {
+                stack.pop()
+            }
+        } else {
+            current.properties.push(property)
+        }
+    }
+
+    return root
+}
+
+// Parses a single unfolded content line: NAME;PARAM=VALUE;PARAM="QUOTED":value
+function parseContentLine(line: string): IcsProperty | undefined {
+    let inQuotes = false
+    let colon = -1
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') {
+            inQuotes = !inQuotes
+        } else if (line[i] === ":" && !inQuotes) {
+            colon = i
+            break
+        }
+    }
+    if (colon < 0) {
+        return undefined
+    }
+
+    const [name, ...rawParams] = splitOutsideQuotes(line.slice(0, colon), ";")
+    const params: Record<string, string> = {}
+    for (const rawParam of rawParams) {
+        const equals = rawParam.indexOf("=")
+        if (equals > 0) {
+            params[rawParam.slice(0, equals).toUpperCase()] = rawParam.slice(equals + 1).replace(/^"(.*)"$/, "$1")
+        }
+    }
+
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+function splitOutsideQuotes(value: string, separator: string): string[] {
+    const parts: string[] = []
+    let current = ""
+    let inQuotes = false
+    for (const char of value) {
+        if (char === '"') {
+            inQuotes = !inQuotes
+        }
+        if (char === separator && !inQuotes) {
+            parts.push(current)
+            current = ""
+        } else {
+            current += char
+        }
+    }
+    parts.push(current)
+    return parts
+}
+
+function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+    return component.properties.find(p => p.name === name)
+}
+
+function getProperties(component: IcsComponent, name: string): IcsProperty[] {
+    return component.properties.filter(p => p.name === name)
+}
+
+// Reverses TEXT value escaping (\n, \, \; \\)
+function unescapeText(value: string): string {
+    return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char))
+}
+
+// Reads the organizer, attendees (by ROLE), location and description of an event.
+// The user's own response is unknown, since the file doesn't say which attendee is the user.
+function getEventDetails(vevent: IcsComponent): MeetingDetails {
+    const organizer = getProperty(vevent, "ORGANIZER")
+    const attendees = getProperties(vevent, "ATTENDEE").filter(p => p.params.ROLE !== "NON-PARTICIPANT")
+    const requiredAttendees = attendees.filter(p => p.params.ROLE !== "OPT-PARTICIPANT").map(getCalendarUserName)
+    const optionalAttendees = attendees.filter(p => p.params.ROLE === "OPT-PARTICIPANT").map(getCalendarUserName)
+    const location = unescapeText(getProperty(vevent, "LOCATION")?.value ?? "").trim()
+
+    return {
+        organizer: organizer ? getCalendarUserName(organizer) : undefined,
+        requiredAttendees: requiredAttendees.length > 0 ? requiredAttendees : undefined,
+        optionalAttendees: optionalAttendees.length > 0 ? optionalAttendees : undefined,
+        location: location || undefined,
+        bodyExcerpt: createBodyExcerpt(unescapeText(getProperty(vevent, "DESCRIPTION")?.value ?? "")),
+    }
+}
+
+// Gets the display name (CN) of an ORGANIZER or ATTENDEE, falling back to its e-mail address
+function getCalendarUserName(property: IcsProperty): string {
+    return property.params.CN || property.value.replace(/^mailto:/i, "")
+}
+
+function findEventMeetingLink(vevent: IcsComponent): MeetingLink | undefined {
+    for (const name of LINK_PROPERTIES) {
+        for (const property of getProperties(vevent, name)) {
+            const link = findMeetingLink(unescapeText(property.value))
+            if (link) {
+                return link
+            }
+        }
+    }
+    return undefined
+}
+
+/**
+ * Parses a DATE or DATE-TIME value, resolving UTC ("Z"), TZID and floating (local) times.
+ * @param property The property holding the value
+ * @param timezones Resolvers for the VTIMEZONE components of the file
+ * @returns IcsDateTime | undefined The resolved time, or undefined if the value is malformed
+ */
+function parseDateTime(property: IcsProperty, timezones: Map<string, ZoneResolver>): IcsDateTime | undefined {
+    return parseDateTimeValue(property.value, property.params, timezones)
+}
+
+// Parses a comma-separated list of DATE or DATE-TIME values (as used by EXDATE and RDATE)
+function parseDateTimeList(property: IcsProperty, timezones: Map<string, ZoneResolver>): Date[] {
+    return property.value
+        .split(",")
+        .map(value => parseDateTimeValue(value, property.params, timezones)?.date)
+        .filter((date): date is Date => !!date)
+}
+
+function parseDateTimeValue(
+    value: string,
+    params: Record<string, string>,
+    timezones: Map<string, ZoneResolver>,
+): IcsDateTime | undefined {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/)
+    if (!match) {
+        return undefined
+    }
+
+    const [, year, month, day, hour, minute, second = "0", utc] = match
+    const allDay = hour === undefined
+    const wall = Date.UTC(
+        parseInt(year),
+        parseInt(month) - 1,
+        parseInt(day),
+        allDay ? 0 : parseInt(hour),
+        allDay ? 0 : parseInt(minute),
+        parseInt(second),
+    )
+
+    let resolve: ZoneResolver
+    if (utc) {
+        resolve = utcResolver
+    } else if (!allDay && params.TZID) {
+        resolve = timezones.get(params.TZID) ?? createIanaResolver(params.TZID) ?? floatingResolver
+    } else {
+        resolve = floatingResolver
+    }
+
+    return { wall, date: resolve(wall), allDay, resolve }
+}
+
+const utcResolver: ZoneResolver = wall => new Date(wall)
+
+/**
+ * Creates a resolver from a VTIMEZONE component by evaluating its STANDARD/DAYLIGHT observances.
+ * @param vtimezone The VTIMEZONE component
+ * @returns ZoneResolver The resolver for times referencing this zone's TZID
+ */
+function createVTimezoneResolver(vtimezone: IcsComponent): ZoneResolver {
+    const observances = vtimezone.components
+        .filter(c => c.type === "STANDARD" || c.type === "DAYLIGHT")
+        .map(component => {
+            const start = getProperty(component, "DTSTART")
+            const onset = start ? parseDateTimeValue(start.value, {}, new Map())?.wall : undefined
+            const rrule = getProperty(component, "RRULE")
+            return {
+                onset: onset ?? 0,
+                rule: rrule ? parseRecurrenceRule(rrule.value, utcResolver) : undefined,
+                offsetFrom: parseUtcOffset(getProperty(component, "TZOFFSETFROM")?.value),
+                offsetTo: parseUtcOffset(getProperty(component, "TZOFFSETTO")?.value),
+            }
+        })
+
+    if (observances.length === 0) {
+        return floatingResolver
+    }
+
+    const earliest = observances.reduce((a, b) => (b.onset < a.onset ? b : a))
+
+    // Observance onsets from the start of the previous year to the end of the given year, cached per year
+    const transitionsByYear = new Map<number, { onset: number; offset: number }[]>()
+    const getTransitions = (year: number) => {
+        let transitions = transitionsByYear.get(year)
+        if (!transitions) {
+            const from = Date.UTC(year - 1, 0, 1)
+            const to = Date.UTC(year + 1, 0, 1)
+            transitions = observances
+                .flatMap(o =>
+                    (o.rule ? expandRecurrence(o.onset, o.rule, to, utcResolver) : [o.onset])
+                        .filter(onset => onset >= from && onset < to)
+                        .map(onset => ({ onset, offset: o.offsetTo })),
+                )
+                .sort((a, b) => a.onset - b.onset)
+            transitionsByYear.set(year, transitions)
+        }
+        return transitions
+    }
+
+    // Offset in effect at a wall-clock time: the one of the most recent observance onset
+    const offsetAt = (wall: number): number => {
+        const latest = getTransitions(new Date(wall).getUTCFullYear())
+            .filter(t => t.onset <= wall)
+            .pop()
+        if (latest) {
+            return latest.offset
+        }
+        // Before any recorded transition in range: use the last onset ever, or the earliest offset
+        const previous = observances
+            .filter(o => !o.rule && o.onset <= wall)
+            .sort((a, b) => a.onset - b.onset)
+            .pop()
+        return previous ? previous.offsetTo : wall >= earliest.onset ? earliest.offsetTo : earliest.offsetFrom
+    }
+
+    return wall => new Date(wall - offsetAt(wall))
+}
+
+// Parses a UTC offset such as "+0100" or "-0530" into milliseconds
+function parseUtcOffset(value: string | undefined): number {
+    const match = value?.match(/^([+-])(\d{2})(\d{2})(\d{2})?$/)
+    if (!match) {
+        return 0
+    }
+    const [, sign, hours, minutes, seconds = "0"] = match
+    const ms = ((parseInt(hours) * 60 + parseInt(minutes)) * 60 + parseInt(seconds)) * 1000
+    return sign === "-" ? -ms : ms
+}
+
+// Duration of an event from DTEND or DURATION, in milliseconds
+function getDurationMs(
+    vevent: IcsComponent,
+    start: IcsDateTime,
+    timezones: Map<string, ZoneResolver>,
+): number | undefined {
+    const dtEnd = getProperty(vevent, "DTEND")
+    const end = dtEnd && parseDateTime(dtEnd, timezones)
+    if (end) {
+        return Math.max(0, end.date.getTime() - start.date.getTime())
+    }
+
+    const duration = getProperty(vevent, "DURATION")
+    if (duration) {
+        return parseIcsDuration(duration.value)
+    }
+
+    // All-day events without an end last one day
+    return start.allDay ? DAY_MS : undefined
+}
+
+// Parses an RFC 5545 duration such as "PT30M", "P1DT2H" or "P1W" into milliseconds
+function parseIcsDuration(value: string): number | undefined {
+    const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+    if (!match) {
+        return undefined
+    }
+    const [, sign, weeks = "0", days = "0", hours = "0", minutes = "0", seconds = "0"] = match
+    const ms =
+        ((((parseInt(weeks) * 7 + parseInt(days)) * 24 + parseInt(hours)) * 60 + parseInt(minutes)) * 60 +
+            parseInt(seconds)) *
+        1000
+    return sign === "-" ? -ms : ms
+}
+
+/**
+ * Parses an RRULE value.
+ * @param value The rule, e.g. "FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261231T000000Z"
+ * @param resolve Resolver used for an UNTIL value without "Z"
+ * @returns RecurrenceRule The parsed rule (unsupported frequencies fall back to DAILY with COUNT=1)
+ */
+function parseRecurrenceRule(value: string, resolve: ZoneResolver): RecurrenceRule {
+    const parts: Record<string, string> = {}
+    for (const part of value.split(";")) {
+        const [key, partValue] = part.split("=")
+        if (key && partValue !== undefined) {
+            parts[key.toUpperCase()] = partValue.toUpperCase()
+        }
+    }
+
+    const toNumbers = (list?: string) => (list ? list.split(",").map(n => parseInt(n)) : []).filter(n => !isNaN(n))
+    const freq = parts.FREQ as RecurrenceRule["freq"]
+    const supported = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(freq)
+
+    let until: Date | undefined
+    if (parts.UNTIL) {
+        const parsed = parseDateTimeValue(parts.UNTIL, {}, new Map())
+        if (parsed) {
+            until = parts.UNTIL.endsWith("Z") ? parsed.date : resolve(parsed.wall)
+            // A date-only UNTIL includes the whole day
+            if (parsed.allDay) {
+                until = new Date(resolve(parsed.wall + DAY_MS).getTime() - 1)
+            }
+        }
+    }
+
+    return {
+        freq: supported ? freq : "DAILY",
+        interval: Math.max(1, parseInt(parts.INTERVAL) || 1),
+        count: supported ? parseInt(parts.COUNT) || undefined : 1,
+        until,
+        byDay: (parts.BYDAY ? parts.BYDAY.split(",") : [])
+            .map(day => day.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/))
+            .filter((match): match is RegExpMatchArray => !!match)
+            .map(match => ({
+                weekday: WEEKDAYS.indexOf(match[2]),
+                ordinal: match[1] ? parseInt(match[1]) : undefined,
+            })),
+        byMonthDay: toNumbers(parts.BYMONTHDAY),
+        byMonth: toNumbers(parts.BYMONTH),
+        bySetPos: toNumbers(parts.BYSETPOS),
+        weekStart: parts.WKST ? Math.max(0, WEEKDAYS.indexOf(parts.WKST)) : 1,
+    }
+}
+
+/**
+ * Expands a recurrence rule into occurrence start times.
+ * @param startWall Wall-clock time of the first occurrence (DTSTART)
+ * @param rule The recurrence rule
+ * @param endWall Wall-clock time after which expansion stops
+ * @param resolve Resolver used to compare occurrences against UNTIL
+ * @returns number[] Wall-clock start times of the occurrences, in order
+ */
+function expandRecurrence(startWall: number, rule: RecurrenceRule, endWall: number, resolve: ZoneResolver): number[] {
+    const occurrences: number[] = []
+    const start = new Date(startWall)
+    const timeOfDay = startWall - Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate())
+    let count = 0
+
+    for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+        const { periodStart, days } = getPeriodDays(start, rule, period * rule.interval)
+        if (periodStart > endWall) {
+            break
+        }
+
+        let candidates = days.map(day => day + timeOfDay)
+        if (rule.bySetPos.length > 0) {
+            candidates = rule.bySetPos
+                .map(pos => candidates[pos > 0 ? pos - 1 : candidates.length + pos])
+                .filter((c): c is number => c !== undefined)
+                .sort((a, b) => a - b)
+        }
+
+        for (const candidate of candidates) {
+            if (candidate < startWall) {
+                continue
+            }
+            if (candidate > endWall || (rule.until && resolve(candidate) > rule.until)) {
+                return occurrences
+            }
+            count++
+            if (rule.count && count > rule.count) {
+                return occurrences
+            }
+            occurrences.push(candidate)
+        }
+    }
+
+    return occurrences
+}
+
+// Day starts (wall-clock, UTC-encoded) of the period that is `offset` frequency units after the start
+function getPeriodDays(start: Date, rule: RecurrenceRule, offset: number): { periodStart: number; days: number[] } {
+    const year = start.getUTCFullYear()
+    const month = start.getUTCMonth()
+    const day = start.getUTCDate()
+
+    switch (rule.freq) {
+        case "DAILY": {
+            const periodStart = Date.UTC(year, month, day + offset)
+            return { periodStart, days: matchesFilters(periodStart, rule) ? [periodStart] : [] }
+        }
+        case "WEEKLY": {
+            const weekdayOffset = (start.getUTCDay() - rule.weekStart + 7) % 7
+            const periodStart = Date.UTC(year, month, day - weekdayOffset + offset * 7)
+            const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [start.getUTCDay()]
+            const days = Array.from({ length: 7 }, (_, i) => periodStart + i * DAY_MS).filter(
+                d => weekdays.includes(new Date(d).getUTCDay()) && matchesMonth(d, rule),
+            )
+            return { periodStart, days }
+        }
+        case "MONTHLY": {
+            const periodStart = Date.UTC(year, month + offset, 1)
+            const days = matchesMonth(periodStart, rule) ? getMonthDays(periodStart, rule, day) : []
+            return { periodStart, days }
+        }
+        case "YEARLY": {
+            const periodStart = Date.UTC(year + offset, 0, 1)
+            const months = rule.byMonth.length > 0 ? rule.byMonth.map(m => m - 1) : [month]
+            const days = months
+                .sort((a, b) => a - b)
+                .flatMap(m => getMonthDays(Date.UTC(year + offset, m, 1), rule, day))
+            return { periodStart, days }
+        }
+    }
+}
+
+// Days of a month selected by BYMONTHDAY/BYDAY, or the start's day of month when neither is set
+function getMonthDays(monthStart: number, rule: RecurrenceRule, startDay: number): number[] {
+    const first = new Date(monthStart)
+    const daysInMonth = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)).getUTCDate()
+    const allDays = Array.from({ length: daysInMonth }, (_, i) => monthStart + i * DAY_MS)
+    let days: number[]
+
+    if (rule.byMonthDay.length > 0) {
+        days = rule.byMonthDay
+            .map(n => (n < 0 ? daysInMonth + 1 + n : n))
+            .filter(n => n >= 1 && n <= daysInMonth)
+            .map(n => monthStart + (n - 1) * DAY_MS)
+            .filter(d => rule.byDay.length === 0 || rule.byDay.some(b => b.weekday === new Date(d).getUTCDay()))
+    } else if (rule.byDay.length > 0) {
+        days = rule.byDay.flatMap(({ weekday, ordinal }) => {
+            const matching = allDays.filter(d => new Date(d).getUTCDay() === weekday)
+            if (!ordinal) {
+                return matching
+            }
+            const selected = matching[ordinal > 0 ? ordinal - 1 : matching.length + ordinal]
+            return selected !== undefined ? [selected] : []
+        })
+    } else {
+        days = startDay <= daysInMonth ? [monthStart + (startDay - 1) * DAY_MS] : []
+    }
+
+    return [...new Set(days)].sort((a, b) => a - b)
+}
+
+function matchesMonth(day: number, rule: RecurrenceRule): boolean {
+    return rule.byMonth.length === 0 || rule.byMonth.includes(new Date(day).getUTCMonth() + 1)
+}
+
+function matchesFilters(day: number, rule: RecurrenceRule): boolean {
+    const date = new Date(day)
+    return (
+        matchesMonth(day, rule) &&
+        (rule.byMonthDay.length === 0 || rule.byMonthDay.includes(date.getUTCDate())) &&
+        (rule.byDay.length === 0 || rule.byDay.some(b => b.weekday === date.getUTCDay()))
+    )
+}
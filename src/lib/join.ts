@@ -0,0 +1,74 @@
+import { showToast, Toast } from "@raycast/api"
+import { JoinedMeeting, recordJoin } from "./history"
+import { DEFAULT_JOIN_SETTINGS, getJoinTarget, JoinSettings, JoinTarget, openUrl } from "./launcher"
+import { getLaunchUrl, getProviderName, MeetingLink, resolveMeetingLink } from "./links"
+
+// Opens the launch URL, falling back to the https link in the browser; shows a toast when that was needed or failed
+async function openWithFallback(launchUrl: string, link: MeetingLink): Promise<boolean> {
+    try {
+        await openUrl(launchUrl)
+        return true
+    } catch (error) {
+        console.error(`Could not open ${launchUrl}:`, error)
+    }
+
+    // The app isn't installed or its URL handler failed, so join on the web instead
+    if (launchUrl !== link.url) {
+        try {
+            await openUrl(link.url)
+            await showToast({
+                style: Toast.Style.Success,
+                title: "Opened in Browser",
+                message: `Could not open the ${getProviderName(link.provider)} app, so the meeting was opened in the browser.`,
+            })
+            return true
+        } catch (error) {
+            console.error(`Could not open ${link.url}:`, error)
+        }
+    }
+
+    await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to Open Link",
+        message: "Could not open the meeting link in the app or the browser.",
+    })
+    return false
+}
+
+/**
+ * Opens a meeting link: Teams links in the desktop client (msteams://), Zoom meeting links in the Zoom app
+ * (zoommtg://) and all other links in the browser. When the app can't be opened, the https link is opened in the
+ * browser instead. Every join is recorded in the join history.
+ * @param url The original https meeting URL.
+ * @param meeting The meeting being joined, for the join history
+ * @param settings Where links open by default and per domain (see getJoinSettings)
+ * @param target Opens the link in the app or the browser regardless of the settings (e.g. for "Join in Browser")
+ * @returns Promise<boolean> True if the link was opened, false if opening failed (a failure toast is shown)
+ */
+export async function openTeamsLink(
+    url: string,
+    meeting: JoinedMeeting,
+    settings: JoinSettings = DEFAULT_JOIN_SETTINGS,
+    target?: JoinTarget,
+): Promise<boolean> {
+    const link = resolveMeetingLink(url)
+    const launchUrl =
+        (target ?? getJoinTarget(link.url, settings)) === JoinTarget.Browser ? link.url : getLaunchUrl(link)
+
+    const opened = await openWithFallback(launchUrl, link)
+    if (opened) {
+        // The meeting is open either way, so a failure to record it must not open it again
+        try {
+            await recordJoin(meeting, link)
+        } catch (error) {
+            console.error("Could not record the join:", error)
+        }
+    }
+    return opened
+}
+
+// Launch context of the find-meetings command, used to open it showing only some meetings
+export interface FindMeetingsLaunchContext {
+    /** Keys (see getMeetingKey) of the meetings to show */
+    meetingKeys?: string[]
+}
@@ -0,0 +1,105 @@
+import { execFile, ExecFileOptions } from "child_process"
+
+// Where a meeting link is opened
+export enum JoinTarget {
+    /** The provider's desktop app (msteams://, zoommtg://), falling back to the browser */
+    App = "app",
+    /** The browser, with the https:// web-join URL */
+    Browser = "browser",
+}
+
+// Opens the links of a domain (and its subdomains) in the app or the browser, e.g. "teams.live.com=browser"
+export interface JoinRule {
+    domain: string
+    target: JoinTarget
+}
+
+// How meeting links are opened when no target is forced (e.g. by "Join in Browser")
+export interface JoinSettings {
+    defaultTarget: JoinTarget
+    rules: JoinRule[]
+}
+
+// Settings used when none are passed: every link opens in its app
+export const DEFAULT_JOIN_SETTINGS: JoinSettings = { defaultTarget: JoinTarget.App, rules: [] }
+
+// A command that opens a URL with the system's default handler
+interface OpenCommand {
+    file: string
+    args: string[]
+    options: ExecFileOptions
+}
+
+// Longest time to wait for the open command itself; the opened app keeps running on its own
+const OPEN_TIMEOUT_MS = 15 * 1000
+
+/**
+ * Parses the "Join Rules" preference.
+ * @param value Rules separated by semicolons or new lines, e.g. "teams.live.com=browser; contoso.zoom.us=app"
+ * @returns JoinRule[] The valid rules; entries without a known target are ignored
+ */
+export function parseJoinRules(value: string): JoinRule[] {
+    return value
+        .split(/[;\n]/)
+        .map(entry => entry.split("="))
+        .filter(parts => parts.length === 2)
+        .map(([domain, target]) => ({
+            domain: domain
+                .trim()
+                .toLowerCase()
+                .replace(/^\*?\./, ""),
+            target: target.trim().toLowerCase() as JoinTarget,
+        }))
+        .filter(({ domain, target }) => domain !== "" && Object.values(JoinTarget).includes(target))
+}
+
+/**
+ * Chooses where to open a link: the rule with the most specific matching domain, otherwise the default.
+ * @param url The https join URL
+ * @param settings The default target and the per-domain rules
+ * @returns JoinTarget The app or the browser
+ */
+export function getJoinTarget(url: string, settings: JoinSettings): JoinTarget {
+    let hostname: string
+    try {
+        hostname = new URL(url).hostname.toLowerCase()
+    } catch {
+        return settings.defaultTarget
+    }
+
+    const matching = settings.rules
+        .filter(({ domain }) => hostname === domain || hostname.endsWith(`.${domain}`))
+        .sort((a, b) => b.domain.length - a.domain.length)
+    return matching[0]?.target ?? settings.defaultTarget
+}
+
+// Gets the platform's command to open a URL: 'start' on Windows, 'open' on macOS and 'xdg-open' on Linux
+function getOpenCommand(url: string): OpenCommand {
+    switch (process.platform) {
+        case "win32":
+            // 'start' is a cmd built-in, run the same way Node runs shell commands (cmd /d /s /c "...").
+            // The empty "" argument is a necessary quirk to handle URLs correctly, and quotes in the URL are
+            // encoded so they can't end the quoted argument.
+            return {
+                file: "cmd.exe",
+                args: ["/d", "/s", "/c", `"start "" "${url.replace(/"/g, "%22")}""`],
+                options: { windowsVerbatimArguments: true, windowsHide: true },
+            }
+        case "darwin":
+            return { file: "open", args: [url], options: {} }
+        default:
+            return { file: "xdg-open", args: [url], options: {} }
+    }
+}
+
+/**
+ * Opens a URL with the system's default handler, without a shell.
+ * @param url The URL (https://, msteams://, zoommtg://, ...)
+ * @returns Promise<void> Resolves when the handler was started; rejects when no handler could open the URL
+ */
+export function openUrl(url: string): Promise<void> {
+    const { file, args, options } = getOpenCommand(url)
+    return new Promise((resolve, reject) => {
+        execFile(file, args, { ...options, timeout: OPEN_TIMEOUT_MS }, error => (error ? reject(error) : resolve()))
+    })
+}
@@ -0,0 +1,164 @@
+// Online meeting services whose join links are recognized
+export enum MeetingProvider {
+    Teams = "teams",
+    Zoom = "zoom",
+    GoogleMeet = "google-meet",
+    Webex = "webex",
+    Other = "other",
+}
+
+// A join link together with the service it belongs to
+export interface MeetingLink {
+    url: string
+    provider: MeetingProvider
+}
+
+// Join URL patterns per provider, matched against unwrapped https URLs
+const PROVIDER_PATTERNS: { provider: MeetingProvider; pattern: RegExp }[] = [
+    // Classic meetup-join links, new short links (/meet/<id>?p=...) and Teams (free) links
+    {
+        provider: MeetingProvider.Teams,
+        pattern: /^https:\/\/teams\.(microsoft\.com|live\.com)\/(l\/meetup-join|meet)\//i,
+    },
+    { provider: MeetingProvider.Zoom, pattern: /^https:\/\/([\w-]+\.)*zoom(gov)?\.(us|com)\/(j|w|my|s)\//i },
+    {
+        provider: MeetingProvider.GoogleMeet,
+        pattern: /^https:\/\/meet\.google\.com\/([a-z]{3}-[a-z]{4}-[a-z]{3}|lookup\/)/i,
+    },
+    {
+        provider: MeetingProvider.Webex,
+        pattern: /^https:\/\/([\w-]+\.)*webex\.com\/([\w-]+\/)?(meet\/|join\/|j\.php|wbxmjs\/joinservice\/)/i,
+    },
+]
+
+// Any http(s) URL in free text (bodies, locations, descriptions)
+const URL_REGEX = /https?:\/\/[^\s"'<>]+/gi
+
+// Hosts of Microsoft Defender Safe Links, which wrap the original URL in the "url" query parameter
+const SAFE_LINKS_HOST_REGEX = /(^|\.)safelinks\.protection\.outlook\.com$/i
+
+/**
+ * Returns the original URL of a Safe Links-wrapped URL (nested wrapping is unwrapped too).
+ * @param url A URL that may be wrapped by Safe Links
+ * @returns string The original URL, or the input when it isn't wrapped
+ */
+export function unwrapSafeLink(url: string): string {
+    let current = url
+    // Guard against pathological nesting
+    for (let depth = 0; depth < 5; depth++) {
+        let parsed: URL
+        try {
+            parsed = new URL(current)
+        } catch {
+            return current
+        }
+
+        const target = parsed.searchParams.get("url")
+        if (!SAFE_LINKS_HOST_REGEX.test(parsed.hostname) || !target) {
+            return current
+        }
+        current = target
+    }
+    return current
+}
+
+/**
+ * Detects the meeting service of a join URL.
+ * @param url The (unwrapped) URL
+ * @returns MeetingProvider | undefined The provider, or undefined if the URL isn't a recognized join link
+ */
+export function detectProvider(url: string): MeetingProvider | undefined {
+    return PROVIDER_PATTERNS.find(({ pattern }) => pattern.test(url))?.provider
+}
+
+/**
+ * Finds the first recognized meeting join link in free text, unwrapping Safe Links.
+ * @param text Text that may contain URLs (e.g. a meeting body or location)
+ * @returns MeetingLink | undefined The link and its provider, or undefined if none was found
+ */
+export function findMeetingLink(text: string): MeetingLink | undefined {
+    for (const match of text.matchAll(URL_REGEX)) {
+        const url = unwrapSafeLink(cleanUrl(match[0]))
+        const provider = detectProvider(url)
+        if (provider) {
+            return { url, provider }
+        }
+    }
+    return undefined
+}
+
+/**
+ * Interprets a link value from a meetings file: the first recognized join link it contains,
+ * or the (unwrapped) value itself for links of other services.
+ * @param value The raw link value
+ * @returns MeetingLink The link and its provider
+ */
+export function resolveMeetingLink(value: string): MeetingLink {
+    const url = unwrapSafeLink(value.trim())
+    return findMeetingLink(url) ?? { url, provider: detectProvider(url) ?? MeetingProvider.Other }
+}
+
+// Strips HTML entities and trailing punctuation picked up from surrounding text
+function cleanUrl(url: string): string {
+    return url.replace(/&amp;/g, "&").replace(/[.,;:!?)\]}]+$/, "")
+}
+
+/**
+ * Gets the display name of a provider.
+ * @param provider The provider
+ * @returns string The name (e.g. "Zoom")
+ */
+export function getProviderName(provider: MeetingProvider): string {
+    switch (provider) {
+        case MeetingProvider.Teams:
+            return "Teams"
+        case MeetingProvider.Zoom:
+            return "Zoom"
+        case MeetingProvider.GoogleMeet:
+            return "Google Meet"
+        case MeetingProvider.Webex:
+            return "Webex"
+        default:
+            return "Online"
+    }
+}
+
+/**
+ * Gets the URL that opens a meeting in the provider's desktop app where one has a URL scheme:
+ * msteams:// for Teams and zoommtg:// for Zoom meeting links. Other links open in the browser.
+ * @param link The join link
+ * @returns string The URL to launch
+ */
+export function getLaunchUrl(link: MeetingLink): string {
+    switch (link.provider) {
+        case MeetingProvider.Teams:
+            return link.url.replace("https://", "msteams://")
+        case MeetingProvider.Zoom:
+            return getZoomAppUrl(link.url) ?? link.url
+        default:
+            return link.url
+    }
+}
+
+// Converts https://<host>/j/<id>?pwd=<pwd> into zoommtg://<host>/join?action=join&confno=<id>&pwd=<pwd>
+function getZoomAppUrl(url: string): string | undefined {
+    let parsed: URL
+    try {
+        parsed = new URL(url)
+    } catch {
+        return undefined
+    }
+
+    const meetingId = parsed.pathname.match(/^\/[jw]\/(\d+)/)?.[1]
+    if (!meetingId) {
+        // Personal links (/my/<name>) can't be joined by number
+        return undefined
+    }
+
+    const params = new URLSearchParams({ action: "join", confno: meetingId })
+    const password = parsed.searchParams.get("pwd")
+    if (password) {
+        params.set("pwd", password)
+    }
+    return `zoommtg://${parsed.host}/join?${params}`
+}
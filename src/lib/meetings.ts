@@ -0,0 +1,457 @@
+import { homedir } from "os"
+import { readFile, stat, access } from "fs/promises"
+import { constants } from "fs"
+import { extname } from "path"
+import { CsvRecord, findMissingColumns, getField, parseCsv } from "./csv"
+import { DateFormat, getZoneResolver, parseStrictDate, resolveDateFormat } from "./dates"
+import { createBodyExcerpt, MeetingDetails, parseAttendees, parseResponseStatus } from "./details"
+import { parseIcsEvents } from "./ics"
+import { MeetingProvider, resolveMeetingLink } from "./links"
+import { ZoneResolver } from "./timezones"
+
+/**
+ * Expands the home directory shortcut (~) at the start of a path from the preferences
+ * @param filePath Path that may start with ~ (e.g. "~/meetings.csv" or "~\\meetings.csv")
+ * @returns string The path with a leading ~ replaced by the user's home directory; other tildes are kept
+ */
+export function expandHomePath(filePath: string): string {
+    return filePath.replace(/^~(?=$|[\\/])/, homedir())
+}
+
+/**
+ * Checks if a file exists
+ * @param filePath Path to the file to check
+ * @returns Promise<boolean> True if file exists and is accessible
+ */
+export async function fileExists(filePath: string): Promise<boolean> {
+    try {
+        await access(filePath, constants.F_OK)
+        return true
+    } catch {
+        return false
+    }
+}
+
+/**
+ * Checks if a file is older than the specified number of hours
+ * @param filePath Path to the file to check
+ * @param hours Number of hours to check against (0 disables check)
+ * @returns Promise<boolean> True if file is older than specified hours or doesn't exist
+ */
+export async function isFileOlderThanHours(filePath: string, hours: number): Promise<boolean> {
+    // If hours is 0 or negative, auto-refresh is disabled
+    if (hours <= 0) {
+        return false
+    }
+
+    try {
+        const stats = await stat(filePath)
+        const fileAge = Date.now() - stats.mtime.getTime()
+        const thresholdMs = hours * 60 * 60 * 1000 // Convert hours to milliseconds
+        return fileAge > thresholdMs
+    } catch (error) {
+        // If file doesn't exist or can't be accessed, consider it "old"
+        return true
+    }
+}
+
+/**
+ * Gets when a file was last modified
+ * @param filePath Path to the file
+ * @returns Promise<number | undefined> The modification time in milliseconds, or undefined if the file can't be accessed
+ */
+export async function getFileModifiedTime(filePath: string): Promise<number | undefined> {
+    try {
+        return (await stat(filePath)).mtimeMs
+    } catch {
+        return undefined
+    }
+}
+
+// Duration assumed for meetings whose file has neither an EndTime nor a Duration column (overridable in preferences)
+export const DEFAULT_DURATION_MINUTES = 60
+
+// Minutes before the start time that a meeting already counts as active (overridable in preferences)
+export const DEFAULT_EARLY_JOIN_MINUTES = 5
+
+// Countdowns are only shown for meetings starting within this many hours
+const COUNTDOWN_HORIZON_HOURS = 12
+
+// Meeting status enum
+export enum MeetingStatus {
+    Ended = "ended",
+    Active = "active",
+    Upcoming = "upcoming",
+}
+
+/**
+ * Determines the status of a meeting at a point in time.
+ * @param startDate Start of the meeting
+ * @param endDate End of the meeting
+ * @param now The current time
+ * @param earlyJoinMinutes Minutes before the start that the meeting already counts as active
+ * @returns MeetingStatus The status at `now`
+ */
+export function getMeetingStatus(
+    startDate: Date,
+    endDate: Date,
+    now: Date = new Date(),
+    earlyJoinMinutes: number = DEFAULT_EARLY_JOIN_MINUTES,
+): MeetingStatus {
+    if (now > endDate) {
+        return MeetingStatus.Ended
+    }
+
+    // Consider meeting active if we're within the early-join buffer of the start time or after it
+    if (now.getTime() >= startDate.getTime() - earlyJoinMinutes * 60 * 1000) {
+        return MeetingStatus.Active
+    }
+
+    return MeetingStatus.Upcoming
+}
+
+/**
+ * Describes how long until a meeting starts or ends, e.g. "starts in 4 min" or "ends in 1 h 5 min".
+ * @param meeting The meeting
+ * @param now The current time
+ * @returns string | undefined The countdown, or undefined for ended meetings and meetings far in the future
+ */
+export function getMeetingCountdown(meeting: MeetingInfo, now: Date): string | undefined {
+    const untilStart = meeting.parsedDate.getTime() - now.getTime()
+    if (untilStart > COUNTDOWN_HORIZON_HOURS * 60 * 60 * 1000) {
+        return undefined
+    }
+    if (untilStart > 0) {
+        return `starts in ${formatDuration(untilStart)}`
+    }
+
+    const untilEnd = meeting.endDate.getTime() - now.getTime()
+    return untilEnd >= 0 ? `ends in ${formatDuration(untilEnd)}` : undefined
+}
+
+// Formats a time span rounded up to whole minutes (e.g. "4 min" or "1 h 5 min")
+export function formatDuration(milliseconds: number): string {
+    const totalMinutes = Math.max(1, Math.ceil(milliseconds / 60000))
+    const hours = Math.floor(totalMinutes / 60)
+    const minutes = totalMinutes % 60
+    if (hours === 0) {
+        return `${minutes} min`
+    }
+    return minutes === 0 ? `${hours} h` : `${hours} h ${minutes} min`
+}
+
+// Interface for storing meeting information
+export interface MeetingInfo extends MeetingDetails {
+    StartTime: string
+    Subject: string
+    TeamsLink: string
+    /** Service the join link belongs to */
+    provider: MeetingProvider
+    parsedDate: Date
+    endDate: Date
+    timeDisplay: string
+    /** Name of the source the meeting was loaded from */
+    source: string
+}
+
+/**
+ * Identifies a meeting by its join link and start time (the same meeting loaded from two sources has the same key).
+ * @param meeting The meeting
+ * @returns string The key
+ */
+export function getMeetingKey(meeting: MeetingInfo): string {
+    return `${meeting.TeamsLink}|${meeting.parsedDate.getTime()}`
+}
+
+// Columns every meetings file must provide
+export const REQUIRED_COLUMNS = ["StartTime", "Subject", "TeamsLink"]
+
+// Columns a meetings file may provide
+export const OPTIONAL_COLUMNS = [
+    "EndTime",
+    "Duration",
+    "Organizer",
+    "RequiredAttendees",
+    "OptionalAttendees",
+    "Location",
+    "ResponseStatus",
+    "Body",
+]
+
+/**
+ * Parses a meeting duration given as minutes ("30"), a time span ("01:30" or "01:30:00") or ISO 8601 ("PT1H30M").
+ * @param value The raw duration string
+ * @returns number | undefined The duration in minutes, or undefined if it can't be parsed
+ */
+function parseDurationMinutes(value: string): number | undefined {
+    if (/^\d+(\.\d+)?$/.test(value)) {
+        return parseFloat(value)
+    }
+
+    const timeSpan = value.match(/^(\d+):(\d{2})(?::(\d{2}))?$/)
+    if (timeSpan) {
+        const [, hours, minutes, seconds = "0"] = timeSpan
+        return parseInt(hours) * 60 + parseInt(minutes) + parseInt(seconds) / 60
+    }
+
+    const iso = value.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?$/i)
+    if (iso && (iso[1] || iso[2] || iso[3])) {
+        const [, hours = "0", minutes = "0", seconds = "0"] = iso
+        return parseInt(hours) * 60 + parseInt(minutes) + parseInt(seconds) / 60
+    }
+
+    return undefined
+}
+
+// Formats a time of day for display in the list (e.g. "09:00")
+export function formatTime(date: Date): string {
+    return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+}
+
+// Settings for turning the contents of a meetings file into meetings
+export interface ParseOptions {
+    /** Duration of meetings without an end time or duration */
+    defaultDurationMinutes: number
+    /** How dates in CSV files are written */
+    dateFormat: DateFormat
+    /** IANA time zone of CSV times without a UTC offset (empty for the system time zone) */
+    timeZone: string
+}
+
+// Parse options used when none are configured
+export const DEFAULT_PARSE_OPTIONS: ParseOptions = {
+    defaultDurationMinutes: DEFAULT_DURATION_MINUTES,
+    dateFormat: DateFormat.Auto,
+    timeZone: "",
+}
+
+// A row of a meetings file that was not turned into a meeting
+export interface SkippedRow {
+    /** 1-based line number of the row in the file */
+    line: number
+    reason: string
+}
+
+// Meetings read from a file, together with the rows that were rejected
+export interface LoadedMeetings {
+    meetings: MeetingInfo[]
+    skippedRows: SkippedRow[]
+}
+
+// Range of time that meetings from calendar (.ics) files are loaded for
+export interface MeetingsWindow {
+    start: Date
+    end: Date
+}
+
+/**
+ * Computes the window of days around today to load calendar events for.
+ * @param daysBehind Number of past days to include
+ * @param daysAhead Number of future days to include (after today)
+ * @returns MeetingsWindow From midnight `daysBehind` days ago to the end of the day `daysAhead` days from now
+ */
+export function getMeetingsWindow(daysBehind: number, daysAhead: number): MeetingsWindow {
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+    const start = new Date(today)
+    start.setDate(start.getDate() - daysBehind)
+    const end = new Date(today)
+    end.setDate(end.getDate() + daysAhead + 1)
+    return { start, end }
+}
+
+// Checks whether a meetings file is an iCalendar file rather than a CSV file
+export function isIcsFile(filePath: string): boolean {
+    return extname(filePath).toLowerCase() === ".ics"
+}
+
+/**
+ * Fetches meetings from the specified meetings file path.
+ * @param filePath Path to a CSV or iCalendar (.ics) file
+ * @param window Range of time to expand recurring calendar events in (ignored for CSV files)
+ * @param source Name of the source the file belongs to, recorded on every meeting
+ * @param options Default duration, date format and time zone
+ * @returns Promise<LoadedMeetings> The meetings sorted by start time, and the rows that could not be parsed
+ */
+export async function fetchMeetings(
+    filePath: string,
+    window: MeetingsWindow,
+    source: string,
+    options: ParseOptions = DEFAULT_PARSE_OPTIONS,
+): Promise<LoadedMeetings> {
+    let fileContent: string
+    try {
+        fileContent = await readFile(filePath, "utf-8")
+    } catch (error) {
+        console.error("Error reading meetings file:", error)
+        throw new Error(`Could not read or find the file at: ${filePath}`)
+    }
+
+    return isIcsFile(filePath)
+        ? { meetings: parseIcsMeetings(fileContent, window, source, options.defaultDurationMinutes), skippedRows: [] }
+        : parseCsvMeetings(fileContent, source, options)
+}
+
+/**
+ * Builds a meeting from a calendar event with absolute start and end times.
+ * @param event The event's subject, join link (which may be wrapped by Safe Links), start, (optional) end and details
+ * @param source Name of the source the event was loaded from
+ * @param defaultDurationMinutes Duration of events without an end
+ * @returns MeetingInfo The meeting (events without an end get the default duration)
+ */
+export function createMeeting(
+    event: { subject: string; link: string; start: Date; end?: Date; details?: MeetingDetails },
+    source: string,
+    defaultDurationMinutes: number = DEFAULT_DURATION_MINUTES,
+): MeetingInfo {
+    const link = resolveMeetingLink(event.link)
+    const endDate =
+        event.end && event.end > event.start
+            ? event.end
+            : new Date(event.start.getTime() + defaultDurationMinutes * 60 * 1000)
+
+    return {
+        ...event.details,
+        StartTime: event.start.toISOString(),
+        Subject: event.subject,
+        TeamsLink: link.url,
+        provider: link.provider,
+        parsedDate: event.start,
+        endDate,
+        timeDisplay: `${formatTime(event.start)}–${formatTime(endDate)}`,
+        source,
+    }
+}
+
+// Builds meetings from the events of an iCalendar file
+function parseIcsMeetings(
+    fileContent: string,
+    window: MeetingsWindow,
+    source: string,
+    defaultDurationMinutes: number,
+): MeetingInfo[] {
+    return parseIcsEvents(fileContent, window.start, window.end)
+        .filter(event => event.subject && event.meetingLink)
+        .map(event => createMeeting({ ...event, link: event.meetingLink?.url ?? "" }, source, defaultDurationMinutes))
+}
+
+// Builds meetings from the rows of a CSV file, rejecting rows with missing fields or invalid dates
+function parseCsvMeetings(fileContent: string, source: string, options: ParseOptions): LoadedMeetings {
+    // Parse the CSV content, mapping columns by header name
+    const table = parseCsv(fileContent)
+    const missingColumns = findMissingColumns(table, REQUIRED_COLUMNS)
+    if (missingColumns.length > 0) {
+        throw new Error(`Meetings file is missing required column(s): ${missingColumns.join(", ")}`)
+    }
+
+    const resolve = getZoneResolver(options.timeZone)
+    const dateFormat = resolveDateFormat(
+        options.dateFormat,
+        table.records.map(record => getField(record, "StartTime") ?? ""),
+    )
+
+    const meetings: MeetingInfo[] = []
+    const skippedRows: SkippedRow[] = []
+
+    for (const record of table.records) {
+        try {
+            meetings.push(parseCsvMeeting(record, source, dateFormat, resolve, options.defaultDurationMinutes))
+        } catch (error) {
+            skippedRows.push({ line: record.line, reason: error instanceof Error ? error.message : String(error) })
+        }
+    }
+
+    if (skippedRows.length > 0) {
+        console.warn(`Skipped ${skippedRows.length} row(s) of ${source}:`, skippedRows)
+    }
+
+    // Sort by start time
+    meetings.sort((a, b) => a.parsedDate.getTime() - b.parsedDate.getTime())
+    return { meetings, skippedRows }
+}
+
+/**
+ * Builds a meeting from a CSV row.
+ * @param record The row
+ * @param source Name of the source the row belongs to
+ * @param dateFormat Format of the date columns (never Auto)
+ * @param resolve Resolver for times without a UTC offset
+ * @param defaultDurationMinutes Duration of rows with neither an end time nor a duration
+ * @returns MeetingInfo The meeting
+ * @throws Error describing why the row can't be used
+ */
+function parseCsvMeeting(
+    record: CsvRecord,
+    source: string,
+    dateFormat: DateFormat,
+    resolve: ZoneResolver,
+    defaultDurationMinutes: number,
+): MeetingInfo {
+    const startTime = getField(record, "StartTime") ?? ""
+    const subject = getField(record, "Subject") ?? ""
+    const teamsLink = getField(record, "TeamsLink") ?? ""
+    const emptyColumns = REQUIRED_COLUMNS.filter(column => !getField(record, column))
+    if (emptyColumns.length > 0) {
+        throw new Error(`Empty ${emptyColumns.join(", ")}`)
+    }
+
+    const parsedDate = parseColumnDate("StartTime", startTime, dateFormat, resolve)
+
+    // Prefer an explicit end time, then a duration, and only assume a default duration
+    // for files that provide neither
+    const endTime = getField(record, "EndTime")
+    const duration = getField(record, "Duration")
+    let endDate: Date
+    if (endTime) {
+        endDate = parseColumnDate("EndTime", endTime, dateFormat, resolve)
+        if (endDate < parsedDate) {
+            throw new Error(`EndTime "${endTime}" is before StartTime "${startTime}"`)
+        }
+    } else if (duration) {
+        const durationMinutes = parseDurationMinutes(duration)
+        if (durationMinutes === undefined) {
+            throw new Error(`Duration "${duration}" is not a valid duration`)
+        }
+        endDate = new Date(parsedDate.getTime() + durationMinutes * 60 * 1000)
+    } else {
+        endDate = new Date(parsedDate.getTime() + defaultDurationMinutes * 60 * 1000)
+    }
+
+    const link = resolveMeetingLink(teamsLink)
+    return {
+        ...parseCsvDetails(record),
+        StartTime: startTime,
+        Subject: subject,
+        TeamsLink: link.url,
+        provider: link.provider,
+        parsedDate,
+        endDate,
+        timeDisplay: `${formatTime(parsedDate)}–${formatTime(endDate)}`,
+        source,
+    }
+}
+
+// Parses a date column, prefixing errors with the column name
+function parseColumnDate(column: string, value: string, dateFormat: DateFormat, resolve: ZoneResolver): Date {
+    try {
+        return parseStrictDate(value, dateFormat, resolve)
+    } catch (error) {
+        throw new Error(`${column} ${error instanceof Error ? error.message : String(error)}`)
+    }
+}
+
+// Reads the optional detail columns of a CSV row
+function parseCsvDetails(record: CsvRecord): MeetingDetails {
+    const requiredAttendees = parseAttendees(getField(record, "RequiredAttendees") ?? "")
+    const optionalAttendees = parseAttendees(getField(record, "OptionalAttendees") ?? "")
+    const responseStatus = getField(record, "ResponseStatus")
+
+    return {
+        organizer: getField(record, "Organizer") || undefined,
+        requiredAttendees: requiredAttendees.length > 0 ? requiredAttendees : undefined,
+        optionalAttendees: optionalAttendees.length > 0 ? optionalAttendees : undefined,
+        location: getField(record, "Location") || undefined,
+        responseStatus: responseStatus ? parseResponseStatus(responseStatus) : undefined,
+        bodyExcerpt: createBodyExcerpt(getField(record, "Body") ?? ""),
+    }
+}
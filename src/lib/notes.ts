@@ -0,0 +1,137 @@
+import { existsSync } from "fs"
+import { appendFile, mkdir, readdir, readFile, writeFile } from "fs/promises"
+import { join } from "path"
+import { formatFileDate } from "./downloads"
+import { getProviderName } from "./links"
+import { MeetingInfo } from "./meetings"
+
+// Where meeting notes are kept and how they are created
+export interface NoteSettings {
+    /** Folder of the notes, with ~ already expanded */
+    folder: string
+    /** Whether meetings with the same subject share one running note, with a section per occurrence */
+    perSeries: boolean
+    /** Optional Markdown file with the note template, with ~ already expanded */
+    templatePath: string
+}
+
+// Template of a meeting's entry, used when no template file is set. Lines whose placeholders are all empty
+// (e.g. attendees of a meeting without attendees) are left out.
+export const DEFAULT_NOTE_TEMPLATE = [
+    "- **When:** {{date}}, {{time}}",
+    "- **Join:** [{{provider}} Meeting]({{link}})",
+    "- **Organizer:** {{organizer}}",
+    "- **Attendees:** {{attendees}}",
+    "- **Location:** {{location}}",
+    "",
+    "",
+].join("\n")
+
+// A {{placeholder}} in a note template
+const PLACEHOLDER_REGEX = /\{\{\s*(\w+)\s*\}\}/g
+
+// Longest subject part of a note's file name
+const MAX_FILE_NAME_SUBJECT_LENGTH = 100
+
+// Removes characters that aren't allowed in file names on Windows or macOS
+function sanitizeFileName(value: string): string {
+    const name = value
+        .replace(/[<>:"/\\|?*\p{Cc}]/gu, " ")
+        .replace(/\s+/g, " ")
+        .trim()
+        .slice(0, MAX_FILE_NAME_SUBJECT_LENGTH)
+        // Windows drops trailing dots and spaces
+        .replace(/[. ]+$/, "")
+    return name || "Meeting"
+}
+
+/**
+ * Gets the file name of a meeting's note: the date and subject (e.g. "2026-10-19 Sprint Review.md"), or only the
+ * subject for one running note per series.
+ * @param meeting The meeting
+ * @param perSeries Whether meetings with the same subject share one note
+ * @returns string The file name
+ */
+export function getNoteFileName(meeting: MeetingInfo, perSeries: boolean): string {
+    const subject = sanitizeFileName(meeting.Subject)
+    return perSeries ? `${subject}.md` : `${formatFileDate(meeting.parsedDate)} ${subject}.md`
+}
+
+/**
+ * Fills in a note template for a meeting. Available placeholders: subject, date, time, link, provider,
+ * organizer, attendees, location and source.
+ * @param template The template
+ * @param meeting The meeting
+ * @returns string The Markdown
+ */
+export function renderNoteTemplate(template: string, meeting: MeetingInfo): string {
+    const values: Record<string, string> = {
+        subject: meeting.Subject,
+        date: meeting.parsedDate.toLocaleDateString([], {
+            weekday: "long",
+            year: "numeric",
+            month: "short",
+            day: "numeric",
+        }),
+        time: meeting.timeDisplay,
+        link: meeting.TeamsLink,
+        provider: getProviderName(meeting.provider),
+        organizer: meeting.organizer ?? "",
+        attendees: [...(meeting.requiredAttendees ?? []), ...(meeting.optionalAttendees ?? [])].join(", "),
+        location: meeting.location ?? "",
+        source: meeting.source,
+    }
+
+    return template
+        .split("\n")
+        .filter(line => {
+            const names = [...line.matchAll(PLACEHOLDER_REGEX)].map(([, name]) => name)
+            // Unknown placeholders count as filled in, so mistakes in a custom template stay visible
+            return names.length === 0 || names.some(name => values[name] !== "")
+        })
+        .map(line => line.replace(PLACEHOLDER_REGEX, (placeholder, name: string) => values[name] ?? placeholder))
+        .join("\n")
+}
+
+/**
+ * Lists the notes in the notes folder.
+ * @param folder The notes folder
+ * @returns Promise<Set<string>> The file names, empty when the folder doesn't exist yet
+ */
+export async function getNoteFileNames(folder: string): Promise<Set<string>> {
+    try {
+        return new Set(await readdir(folder))
+    } catch {
+        return new Set()
+    }
+}
+
+/**
+ * Creates the note of a meeting if it doesn't exist yet. With one note per series, a section for the meeting is
+ * appended to the series note unless it already has one.
+ * @param meeting The meeting
+ * @param settings The notes folder, template and series setting
+ * @returns Promise<string> The path of the note
+ */
+export async function createMeetingNote(meeting: MeetingInfo, settings: NoteSettings): Promise<string> {
+    const filePath = join(settings.folder, getNoteFileName(meeting, settings.perSeries))
+    const template = settings.templatePath ? await readFile(settings.templatePath, "utf-8") : DEFAULT_NOTE_TEMPLATE
+    const entry = renderNoteTemplate(template, meeting)
+    await mkdir(settings.folder, { recursive: true })
+
+    if (!settings.perSeries) {
+        if (!existsSync(filePath)) {
+            await writeFile(filePath, `# ${meeting.Subject}\n\n${entry}`)
+        }
+        return filePath
+    }
+
+    const heading = `## ${formatFileDate(meeting.parsedDate)}`
+    const content = existsSync(filePath) ? await readFile(filePath, "utf-8") : ""
+    if (content === "") {
+        await writeFile(filePath, `# ${meeting.Subject}\n\n${heading}\n\n${entry}`)
+    } else if (!content.split(/\r?\n/).includes(heading)) {
+        await appendFile(filePath, `${content.endsWith("\n") ? "" : "\n"}\n${heading}\n\n${entry}`)
+    }
+    return filePath
+}
@@ -0,0 +1,345 @@
+import { environment, LocalStorage } from "@raycast/api"
+import { spawn } from "child_process"
+import { mkdir, rm, stat, writeFile } from "fs/promises"
+import { join } from "path"
+import { expandHomePath, fileExists } from "./meetings"
+
+// Function called when no custom function name is configured (defined by the bundled script)
+export const DEFAULT_FUNCTION_NAME = "extract-meetings"
+
+// Timeout used when the preference is not set or invalid
+export const DEFAULT_TIMEOUT_SECONDS = 120
+
+// LocalStorage key of the log of the most recent refresh
+const LAST_REFRESH_LOG_KEY = "lastRefreshLog"
+
+// Lock file held while a refresh runs, so two commands (e.g. the menu bar and Find Teams Meetings) never write the
+// meetings file at the same time
+const REFRESH_LOCK_FILE = "refresh.lock"
+
+// A lock older than the timeout plus this margin was left behind by a refresh that was killed
+const STALE_LOCK_MARGIN_MS = 30 * 1000
+
+// Output beyond this many characters per stream is dropped from the log
+const MAX_LOG_OUTPUT_LENGTH = 20000
+
+// PowerShell function names may only contain word characters and dashes (e.g. "extract-meetings")
+const FUNCTION_NAME_REGEX = /^[\w-]+$/
+
+// Fixed command run by PowerShell. The script path, function name and parameters are passed through environment
+// variables, so none of them is ever parsed as PowerShell code: "& $name" calls the command with that exact name.
+const RUNNER_COMMAND =
+    "& { . $env:MEETINGS_SCRIPT_PATH; & $env:MEETINGS_FUNCTION_NAME " +
+    "-OutputPath $env:MEETINGS_OUTPUT_PATH -DaysAhead $env:MEETINGS_DAYS_AHEAD -DaysBehind $env:MEETINGS_DAYS_BEHIND }"
+
+// How a refresh ended
+export enum RefreshOutcome {
+    Success = "success",
+    Failed = "failed",
+    TimedOut = "timed-out",
+    Cancelled = "cancelled",
+}
+
+// Parameters passed to the PowerShell function (-OutputPath, -DaysAhead and -DaysBehind)
+export interface ScriptParameters {
+    /** Path of the CSV file the function must write */
+    outputPath: string
+    /** Number of days after today to export */
+    daysAhead: number
+    /** Number of days before today to export */
+    daysBehind: number
+}
+
+// Record of a PowerShell refresh, kept for the "Show Last Refresh Log" action
+export interface RefreshLog {
+    /** ISO timestamp of when the script was started */
+    startedAt: string
+    durationMs: number
+    scriptPath: string
+    functionName: string
+    parameters: ScriptParameters
+    outcome: RefreshOutcome
+    /** Exit code of powershell.exe (null when it was killed or never started) */
+    exitCode: number | null
+    stdout: string
+    stderr: string
+    /** Error message when the refresh failed */
+    error?: string
+}
+
+// Options for running the refresh script
+export interface RefreshOptions {
+    parameters: ScriptParameters
+    /** Kill the script after this many seconds */
+    timeoutSeconds: number
+    /** Kill the script when aborted (e.g. when the command's view is closed) */
+    signal?: AbortSignal
+}
+
+/**
+ * Checks whether the PowerShell refresh can run here: it starts powershell.exe and reads Outlook through COM.
+ * @returns boolean True on Windows
+ */
+export function isPowerShellSupported(): boolean {
+    return process.platform === "win32"
+}
+
+/**
+ * Checks whether a function name can be called by the runner command.
+ * @param functionName The function name (empty uses the default)
+ * @returns boolean True if the name only contains word characters and dashes
+ */
+export function isValidFunctionName(functionName: string): boolean {
+    return FUNCTION_NAME_REGEX.test(functionName.trim() || DEFAULT_FUNCTION_NAME)
+}
+
+/**
+ * Lists the locations the bundled PowerShell script is looked up in.
+ * @returns string[] Candidate paths in lookup order
+ */
+export function getBundledScriptCandidates(): string[] {
+    return [
+        join(environment.assetsPath, "extract_teams_meetings.ps1"),
+        join(environment.assetsPath, "..", "extract_teams_meetings.ps1"),
+        join(environment.assetsPath, "..", "..", "extract_teams_meetings.ps1"),
+    ]
+}
+
+/**
+ * Resolves the script to run: the custom script path, or the first bundled script candidate that exists.
+ * @param scriptPath Path to the PowerShell script (if empty, uses bundled script)
+ * @returns Promise<string> The expanded script path
+ */
+export async function resolveScriptPath(scriptPath: string): Promise<string> {
+    if (scriptPath && scriptPath.trim() !== "") {
+        // Expand tilde in custom script path if present
+        return expandHomePath(scriptPath.trim())
+    }
+
+    // Try multiple locations for the bundled script
+    const possiblePaths = getBundledScriptCandidates()
+    console.log("Looking for bundled PowerShell script in:", possiblePaths)
+
+    for (const path of possiblePaths) {
+        if (await fileExists(path)) {
+            console.log("Found bundled script at:", path)
+            return path
+        }
+    }
+
+    const errorMsg = `Bundled PowerShell script not found. Searched in: ${possiblePaths.join(", ")}`
+    console.error(errorMsg)
+    throw new Error(errorMsg)
+}
+
+// Creates the lock file, failing if it already exists
+async function createLockFile(lockPath: string): Promise<boolean> {
+    try {
+        await writeFile(lockPath, String(process.pid), { flag: "wx" })
+        return true
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+            return false
+        }
+        throw error
+    }
+}
+
+// Takes the refresh lock, replacing a lock left behind by a killed refresh; returns false if a refresh is running
+async function acquireRefreshLock(timeoutSeconds: number): Promise<boolean> {
+    await mkdir(environment.supportPath, { recursive: true })
+    const lockPath = join(environment.supportPath, REFRESH_LOCK_FILE)
+    if (await createLockFile(lockPath)) {
+        return true
+    }
+
+    try {
+        const { mtimeMs } = await stat(lockPath)
+        if (Date.now() - mtimeMs < timeoutSeconds * 1000 + STALE_LOCK_MARGIN_MS) {
+            return false
+        }
+    } catch {
+        // The lock was released in the meantime
+    }
+    await rm(lockPath, { force: true })
+    return createLockFile(lockPath)
+}
+
+// Releases the refresh lock
+async function releaseRefreshLock() {
+    await rm(join(environment.supportPath, REFRESH_LOCK_FILE), { force: true })
+}
+
+/**
+ * Executes a PowerShell function to refresh the meetings CSV file.
+ * The script is run without a shell, is killed when it exceeds the timeout or the signal is aborted,
+ * and the outcome is saved as the last refresh log. Only one refresh runs at a time, also across commands.
+ * @param scriptPath Path to the PowerShell script (if empty, uses bundled script)
+ * @param functionName Name of the PowerShell function to execute (if empty, uses 'extract-meetings')
+ * @param options Function parameters, timeout and cancellation signal
+ * @returns Promise<RefreshLog> The log of the successful run (failures are thrown)
+ */
+export async function refreshMeetingsWithPowerShell(
+    scriptPath: string,
+    functionName: string,
+    options: RefreshOptions,
+): Promise<RefreshLog> {
+    // Checked before the log is started, so the log of the running refresh is kept
+    if (!(await acquireRefreshLock(options.timeoutSeconds))) {
+        throw new Error("Another PowerShell refresh is already running")
+    }
+
+    const startedAt = new Date()
+    // Use default function name if not provided
+    const actualFunctionName = functionName.trim() || DEFAULT_FUNCTION_NAME
+    const log: RefreshLog = {
+        startedAt: startedAt.toISOString(),
+        durationMs: 0,
+        scriptPath,
+        functionName: actualFunctionName,
+        parameters: options.parameters,
+        outcome: RefreshOutcome.Failed,
+        exitCode: null,
+        stdout: "",
+        stderr: "",
+    }
+
+    try {
+        if (!isValidFunctionName(actualFunctionName)) {
+            throw new Error(`Invalid PowerShell function name: "${actualFunctionName}"`)
+        }
+
+        log.scriptPath = await resolveScriptPath(scriptPath)
+        if (!(await fileExists(log.scriptPath))) {
+            throw new Error(`PowerShell script not found at: ${log.scriptPath}`)
+        }
+
+        console.log("Script path:", log.scriptPath)
+        console.log("Function name:", actualFunctionName)
+        console.log("Function parameters:", options.parameters)
+
+        const result = await runPowerShell(
+            {
+                MEETINGS_SCRIPT_PATH: log.scriptPath,
+                MEETINGS_FUNCTION_NAME: actualFunctionName,
+                MEETINGS_OUTPUT_PATH: options.parameters.outputPath,
+                MEETINGS_DAYS_AHEAD: String(options.parameters.daysAhead),
+                MEETINGS_DAYS_BEHIND: String(options.parameters.daysBehind),
+            },
+            options,
+        )
+        log.exitCode = result.exitCode
+        log.stdout = result.stdout
+        log.stderr = result.stderr
+
+        console.log("PowerShell stdout:", result.stdout)
+        if (result.stderr) {
+            console.error("PowerShell stderr:", result.stderr)
+        }
+
+        if (result.cancelled) {
+            log.outcome = RefreshOutcome.Cancelled
+            throw new Error("PowerShell refresh was cancelled")
+        }
+        if (result.timedOut) {
+            log.outcome = RefreshOutcome.TimedOut
+            throw new Error(`PowerShell script did not finish within ${options.timeoutSeconds} seconds`)
+        }
+        if (result.exitCode !== 0) {
+            const firstErrorLine = result.stderr.trim().split(/\r?\n/)[0]
+            throw new Error(
+                `PowerShell script failed with exit code ${result.exitCode}${firstErrorLine ? `: ${firstErrorLine}` : ""}`,
+            )
+        }
+
+        log.outcome = RefreshOutcome.Success
+        return log
+    } catch (error) {
+        log.error = error instanceof Error ? error.message : String(error)
+        throw error
+    } finally {
+        log.durationMs = Date.now() - startedAt.getTime()
+        await releaseRefreshLock()
+        await LocalStorage.setItem(LAST_REFRESH_LOG_KEY, JSON.stringify(log))
+    }
+}
+
+/**
+ * Reads the log of the most recent PowerShell refresh.
+ * @returns Promise<RefreshLog | undefined> The log, or undefined if no refresh has run yet
+ */
+export async function getLastRefreshLog(): Promise<RefreshLog | undefined> {
+    const value = await LocalStorage.getItem<string>(LAST_REFRESH_LOG_KEY)
+    if (!value) {
+        return undefined
+    }
+
+    try {
+        return JSON.parse(value) as RefreshLog
+    } catch (error) {
+        // An unreadable log is treated like no log and overwritten by the next refresh
+        console.error("Ignoring invalid refresh log:", error)
+        return undefined
+    }
+}
+
+/**
+ * Runs the fixed runner command in powershell.exe with an argument array (no shell involved).
+ * @param variables Environment variables read by the runner command
+ * @param options Timeout and cancellation signal
+ * @returns Promise with the exit code, captured output and whether the process was killed
+ */
+function runPowerShell(
+    variables: Record<string, string>,
+    options: RefreshOptions,
+): Promise<{ exitCode: number | null; stdout: string; stderr: string; timedOut: boolean; cancelled: boolean }> {
+    return new Promise((resolve, reject) => {
+        if (options.signal?.aborted) {
+            resolve({ exitCode: null, stdout: "", stderr: "", timedOut: false, cancelled: true })
+            return
+        }
+
+        const child = spawn(
+            "powershell.exe",
+            ["-NoProfile", "-NonInteractive", "-ExecutionPolicy", "Bypass", "-Command", RUNNER_COMMAND],
+            { env: { ...process.env, ...variables }, windowsHide: true },
+        )
+
+        let stdout = ""
+        let stderr = ""
+        let timedOut = false
+        let cancelled = false
+
+        child.stdout.on("data", (chunk: Buffer) => {
+            stdout = (stdout + chunk.toString()).slice(0, MAX_LOG_OUTPUT_LENGTH)
+        })
+        child.stderr.on("data", (chunk: Buffer) => {
+            stderr = (stderr + chunk.toString()).slice(0, MAX_LOG_OUTPUT_LENGTH)
+        })
+
+        const timer = setTimeout(() => {
+            timedOut = true
+            child.kill()
+        }, options.timeoutSeconds * 1000)
+
+        const onAbort = () => {
+            cancelled = true
+            child.kill()
+        }
+        options.signal?.addEventListener("abort", onAbort)
+
+        const cleanUp = () => {
+            clearTimeout(timer)
+            options.signal?.removeEventListener("abort", onAbort)
+        }
+
+        child.on("error", error => {
+            cleanUp()
+            reject(new Error(`Could not start PowerShell: ${error.message}`))
+        })
+        child.on("close", exitCode => {
+            cleanUp()
+            resolve({ exitCode, stdout, stderr, timedOut, cancelled })
+        })
+    })
+}
@@ -0,0 +1,152 @@
+import { DateFormat } from "./dates"
+import { JoinSettings, JoinTarget, parseJoinRules } from "./launcher"
+import { DEFAULT_DURATION_MINUTES, DEFAULT_EARLY_JOIN_MINUTES, expandHomePath, ParseOptions } from "./meetings"
+import { NoteSettings } from "./notes"
+import { DEFAULT_TIMEOUT_SECONDS } from "./powershell"
+import { DEFAULT_REMINDER_MINUTES } from "./reminders"
+import { DEFAULT_WORKING_HOURS, parseTimeOfDay, WorkingHours } from "./schedule"
+
+// Where the main list of meetings comes from
+export enum CalendarProvider {
+    File = "file",
+    Graph = "graph",
+    Both = "both",
+}
+
+// Interface for the extension's preferences
+export interface Preferences {
+    calendarProvider?: CalendarProvider
+    meetingsFilePath?: string
+    powershellScriptPath?: string
+    powershellFunctionName?: string
+    powershellTimeoutSeconds?: string
+    autoRefreshHours?: string
+    daysAhead?: string
+    daysBehind?: string
+    earlyJoinMinutes?: string
+    defaultDurationMinutes?: string
+    dateFormat?: DateFormat
+    meetingsTimeZone?: string
+    reminderMinutes?: string
+    workingHoursStart?: string
+    workingHoursEnd?: string
+    autoJoinSubjects?: string
+    notesFolder?: string
+    noteTemplatePath?: string
+    notesPerSeries?: boolean
+    joinTarget?: JoinTarget
+    joinRules?: string
+    additionalSources?: string
+    graphClientId?: string
+    graphTenantId?: string
+    graphBaseUrl?: string
+}
+
+// Folder of meeting notes used when the preference is not set
+const DEFAULT_NOTES_FOLDER = "~/Meeting Notes"
+
+// Auto-refresh threshold used when the preference is not set or invalid
+const DEFAULT_AUTO_REFRESH_HOURS = 24
+
+/**
+ * Parses the "Auto-Refresh Time (Hours)" preference.
+ * @param preferences The extension's preferences
+ * @returns number Age in hours after which meetings files are refreshed, 0 when auto-refresh is disabled (default: 24)
+ */
+export function getAutoRefreshHours(preferences: Preferences): number {
+    const hours = parseInt(preferences.autoRefreshHours || "", 10)
+    return isNaN(hours) || hours < 0 ? DEFAULT_AUTO_REFRESH_HOURS : hours
+}
+
+/**
+ * Parses the "PowerShell Timeout (Seconds)" preference.
+ * @param preferences The extension's preferences
+ * @returns number Seconds after which the refresh script is killed (default: 120)
+ */
+export function getTimeoutSeconds(preferences: Preferences): number {
+    const seconds = parseInt(preferences.powershellTimeoutSeconds || "", 10)
+    return isNaN(seconds) || seconds <= 0 ? DEFAULT_TIMEOUT_SECONDS : seconds
+}
+
+/**
+ * Parses the "Early Join Buffer (Minutes)" preference.
+ * @param preferences The extension's preferences
+ * @returns number Minutes before the start that a meeting counts as active (default: 5)
+ */
+export function getEarlyJoinMinutes(preferences: Preferences): number {
+    const minutes = parseInt(preferences.earlyJoinMinutes || "", 10)
+    return isNaN(minutes) || minutes < 0 ? DEFAULT_EARLY_JOIN_MINUTES : minutes
+}
+
+/**
+ * Parses the "Default Meeting Duration (Minutes)" preference.
+ * @param preferences The extension's preferences
+ * @returns number Duration of meetings without an end time (default: 60)
+ */
+export function getDefaultDurationMinutes(preferences: Preferences): number {
+    const minutes = parseInt(preferences.defaultDurationMinutes || "", 10)
+    return isNaN(minutes) || minutes <= 0 ? DEFAULT_DURATION_MINUTES : minutes
+}
+
+/**
+ * Parses the "Reminder Lead Time (Minutes)" preference.
+ * @param preferences The extension's preferences
+ * @returns number Minutes before the start to show a reminder, 0 when reminders are disabled (default: 2)
+ */
+export function getReminderMinutes(preferences: Preferences): number {
+    const minutes = parseInt(preferences.reminderMinutes || "", 10)
+    return isNaN(minutes) || minutes < 0 ? DEFAULT_REMINDER_MINUTES : minutes
+}
+
+/**
+ * Parses the "Working Hours Start" and "Working Hours End" preferences.
+ * @param preferences The extension's preferences
+ * @returns WorkingHours The working hours (default: 09:00–17:00, also used when the end isn't after the start)
+ */
+export function getWorkingHours(preferences: Preferences): WorkingHours {
+    const startMinutes = parseTimeOfDay(preferences.workingHoursStart || "")
+    const endMinutes = parseTimeOfDay(preferences.workingHoursEnd || "")
+    if (startMinutes === undefined || endMinutes === undefined || endMinutes <= startMinutes) {
+        return DEFAULT_WORKING_HOURS
+    }
+    return { startMinutes, endMinutes }
+}
+
+/**
+ * Collects the "Open Meetings In" and "Join Rules" preferences.
+ * @param preferences The extension's preferences
+ * @returns JoinSettings Where links open by default (the desktop app unless set) and per domain
+ */
+export function getJoinSettings(preferences: Preferences): JoinSettings {
+    return {
+        defaultTarget: preferences.joinTarget || JoinTarget.App,
+        rules: parseJoinRules(preferences.joinRules || ""),
+    }
+}
+
+/**
+ * Collects the "Notes Folder", "Note Template" and "Recurring Meetings" preferences.
+ * @param preferences The extension's preferences
+ * @returns NoteSettings The notes folder (default: ~/Meeting Notes) and template path with ~ expanded
+ */
+export function getNoteSettings(preferences: Preferences): NoteSettings {
+    const templatePath = preferences.noteTemplatePath?.trim()
+    return {
+        folder: expandHomePath(preferences.notesFolder?.trim() || DEFAULT_NOTES_FOLDER),
+        perSeries: preferences.notesPerSeries ?? false,
+        templatePath: templatePath ? expandHomePath(templatePath) : "",
+    }
+}
+
+/**
+ * Collects the preferences that control how meetings files are parsed.
+ * @param preferences The extension's preferences
+ * @returns ParseOptions The default duration, date format and time zone
+ */
+export function getParseOptions(preferences: Preferences): ParseOptions {
+    return {
+        defaultDurationMinutes: getDefaultDurationMinutes(preferences),
+        dateFormat: preferences.dateFormat || DateFormat.Auto,
+        timeZone: preferences.meetingsTimeZone || "",
+    }
+}
@@ -0,0 +1,151 @@
+import { LocalStorage } from "@raycast/api"
+import { getMeetingKey, MeetingInfo } from "./meetings"
+
+// Minutes before the start time that a reminder is shown when the preference is not set or invalid
+export const DEFAULT_REMINDER_MINUTES = 2
+
+// LocalStorage keys of the meetings already announced, already auto-joined, and marked for auto-join
+const ANNOUNCED_MEETINGS_KEY = "announcedMeetings"
+const AUTO_JOINED_MEETINGS_KEY = "autoJoinedMeetings"
+const AUTO_JOIN_MEETINGS_KEY = "autoJoinMeetings"
+
+// Stored meetings are forgotten this long after they started
+const RETENTION_MS = 2 * 24 * 60 * 60 * 1000
+
+// Meetings are only auto-joined within this long after they started (e.g. if Raycast was closed at start time)
+const AUTO_JOIN_GRACE_MS = 5 * 60 * 1000
+
+// Meeting keys mapped to the meeting's start time (in ms), so old entries can be pruned
+type MeetingKeyStore = Record<string, number>
+
+// Reads a store of meeting keys, dropping meetings that started more than the retention period ago
+async function readStore(storageKey: string): Promise<MeetingKeyStore> {
+    const value = await LocalStorage.getItem<string>(storageKey)
+    let store: MeetingKeyStore = {}
+    try {
+        store = value ? (JSON.parse(value) as MeetingKeyStore) : {}
+    } catch (error) {
+        // An unreadable store is treated like an empty one and overwritten by the next update
+        console.error(`Ignoring invalid ${storageKey}:`, error)
+    }
+    const cutoff = Date.now() - RETENTION_MS
+    return Object.fromEntries(Object.entries(store).filter(([, start]) => start >= cutoff))
+}
+
+// Adds or removes meetings from a store of meeting keys
+async function updateStore(storageKey: string, meetings: MeetingInfo[], add: boolean) {
+    const store = await readStore(storageKey)
+    for (const meeting of meetings) {
+        if (add) {
+            store[getMeetingKey(meeting)] = meeting.parsedDate.getTime()
+        } else {
+            delete store[getMeetingKey(meeting)]
+        }
+    }
+    await LocalStorage.setItem(storageKey, JSON.stringify(store))
+}
+
+/**
+ * Parses the "Auto-join Subjects" preference.
+ * @param value Texts separated by semicolons or new lines, e.g. "Daily Standup; Sprint Review"
+ * @returns string[] The lower-cased texts
+ */
+export function parseSubjectPatterns(value: string): string[] {
+    return value
+        .split(/[;\n]/)
+        .map(pattern => pattern.trim().toLowerCase())
+        .filter(pattern => pattern !== "")
+}
+
+/**
+ * Checks whether a subject contains one of the auto-join texts (case-insensitive).
+ * @param subject The meeting subject
+ * @param patterns Texts from parseSubjectPatterns
+ * @returns boolean True if the meeting should be joined automatically
+ */
+export function matchesSubjectPattern(subject: string, patterns: string[]): boolean {
+    const lowerSubject = subject.toLowerCase()
+    return patterns.some(pattern => lowerSubject.includes(pattern))
+}
+
+/**
+ * Reads the keys of the meetings marked for auto-join with the "Auto-join This Meeting" action.
+ * @returns Promise<string[]> The meeting keys
+ */
+export async function getAutoJoinMeetingKeys(): Promise<string[]> {
+    return Object.keys(await readStore(AUTO_JOIN_MEETINGS_KEY))
+}
+
+/**
+ * Marks a single meeting to be joined automatically at its start time, or clears the mark.
+ * @param meeting The meeting
+ * @param enabled Whether the meeting should be auto-joined
+ */
+export async function setMeetingAutoJoin(meeting: MeetingInfo, enabled: boolean) {
+    await updateStore(AUTO_JOIN_MEETINGS_KEY, [meeting], enabled)
+}
+
+/**
+ * Finds the meetings starting within the reminder lead time that have not been announced yet.
+ * @param meetings The loaded meetings
+ * @param now The current time
+ * @param reminderMinutes Minutes before the start to remind (0 disables reminders)
+ * @returns Promise<MeetingInfo[]> The meetings to announce
+ */
+export async function getMeetingsToRemind(
+    meetings: MeetingInfo[],
+    now: Date,
+    reminderMinutes: number,
+): Promise<MeetingInfo[]> {
+    if (reminderMinutes <= 0) {
+        return []
+    }
+    const announced = await readStore(ANNOUNCED_MEETINGS_KEY)
+    return meetings.filter(meeting => {
+        const untilStart = meeting.parsedDate.getTime() - now.getTime()
+        return untilStart > 0 && untilStart <= reminderMinutes * 60 * 1000 && !(getMeetingKey(meeting) in announced)
+    })
+}
+
+/**
+ * Records meetings as announced so they are not reminded about again.
+ * @param meetings The announced meetings
+ */
+export async function markAnnounced(meetings: MeetingInfo[]) {
+    await updateStore(ANNOUNCED_MEETINGS_KEY, meetings, true)
+}
+
+/**
+ * Finds the meetings that have just started and are marked for auto-join or match an auto-join subject,
+ * and that have not been auto-joined yet.
+ * @param meetings The loaded meetings
+ * @param now The current time
+ * @param subjectPatterns Texts from the "Auto-join Subjects" preference
+ * @returns Promise<MeetingInfo[]> The meetings to join
+ */
+export async function getMeetingsToAutoJoin(
+    meetings: MeetingInfo[],
+    now: Date,
+    subjectPatterns: string[],
+): Promise<MeetingInfo[]> {
+    const marked = await getAutoJoinMeetingKeys()
+    const joined = await readStore(AUTO_JOINED_MEETINGS_KEY)
+    return meetings.filter(meeting => {
+        const sinceStart = now.getTime() - meeting.parsedDate.getTime()
+        const key = getMeetingKey(meeting)
+        return (
+            sinceStart >= 0 &&
+            sinceStart <= AUTO_JOIN_GRACE_MS &&
+            !(key in joined) &&
+            (marked.includes(key) || matchesSubjectPattern(meeting.Subject, subjectPatterns))
+        )
+    })
+}
+
+/**
+ * Records meetings as auto-joined so they are not opened again.
+ * @param meetings The joined meetings
+ */
+export async function markAutoJoined(meetings: MeetingInfo[]) {
+    await updateStore(AUTO_JOINED_MEETINGS_KEY, meetings, true)
+}
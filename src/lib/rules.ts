@@ -0,0 +1,179 @@
+import { LocalStorage } from "@raycast/api"
+import { randomUUID } from "crypto"
+import { ResponseStatus } from "./details"
+import { getMeetingKey, MeetingInfo } from "./meetings"
+import { matchesSubjectPattern } from "./reminders"
+
+// What a rule does to the meetings it matches
+export enum RuleAction {
+    /** Listed in a "Pinned" section at the top */
+    Pin = "pin",
+    /** Left out of the list, the menu bar and Join Next Meeting */
+    Hide = "hide",
+    /** No reminders are shown */
+    Mute = "mute",
+}
+
+// A rule for a single meeting or for every meeting whose subject contains a text
+export interface MeetingRule {
+    id: string
+    action: RuleAction
+    /** Case-insensitive text the subject must contain; unset for rules about a single meeting */
+    subjectPattern?: string
+    /** Key of the single meeting the rule applies to (see getMeetingKey) */
+    meetingKey?: string
+    /** Subject of the single meeting, shown in Manage Rules */
+    subject?: string
+    /** Start time of the single meeting in ms, so rules of past meetings can be pruned */
+    start?: number
+}
+
+// How the rules apply to a meeting
+export interface RuleState {
+    pinned: boolean
+    hidden: boolean
+    muted: boolean
+}
+
+// LocalStorage key of the rules
+const RULES_KEY = "meetingRules"
+
+// Rules about a single meeting are forgotten this long after the meeting started
+const RETENTION_MS = 2 * 24 * 60 * 60 * 1000
+
+/**
+ * Reads the rules, dropping rules about single meetings that are long over.
+ * @returns Promise<MeetingRule[]> The rules in the order they were created
+ */
+export async function getMeetingRules(): Promise<MeetingRule[]> {
+    const value = await LocalStorage.getItem<string>(RULES_KEY)
+    let rules: MeetingRule[] = []
+    try {
+        rules = value ? (JSON.parse(value) as MeetingRule[]) : []
+    } catch (error) {
+        // Unreadable rules are treated like none and overwritten by the next change
+        console.error("Ignoring invalid meeting rules:", error)
+    }
+    const cutoff = Date.now() - RETENTION_MS
+    return rules.filter(rule => rule.start === undefined || rule.start >= cutoff)
+}
+
+// Saves the rules and returns them
+async function saveMeetingRules(rules: MeetingRule[]): Promise<MeetingRule[]> {
+    await LocalStorage.setItem(RULES_KEY, JSON.stringify(rules))
+    return rules
+}
+
+/**
+ * Adds a rule for every meeting whose subject contains a text.
+ * @param action What the rule does
+ * @param subjectPattern The text to look for in subjects (case-insensitive)
+ * @returns Promise<MeetingRule[]> The updated rules
+ */
+export async function addSubjectRule(action: RuleAction, subjectPattern: string): Promise<MeetingRule[]> {
+    const rules = await getMeetingRules()
+    return saveMeetingRules([...rules, { id: randomUUID(), action, subjectPattern: subjectPattern.trim() }])
+}
+
+/**
+ * Changes the action or subject text of a rule.
+ * @param rule The rule with its new values
+ * @returns Promise<MeetingRule[]> The updated rules
+ */
+export async function updateMeetingRule(rule: MeetingRule): Promise<MeetingRule[]> {
+    const rules = await getMeetingRules()
+    return saveMeetingRules(rules.map(existing => (existing.id === rule.id ? rule : existing)))
+}
+
+/**
+ * Removes a rule.
+ * @param id The rule's identifier
+ * @returns Promise<MeetingRule[]> The updated rules
+ */
+export async function removeMeetingRule(id: string): Promise<MeetingRule[]> {
+    const rules = await getMeetingRules()
+    return saveMeetingRules(rules.filter(rule => rule.id !== id))
+}
+
+/**
+ * Applies an action to a single meeting, or removes it again.
+ * @param meeting The meeting
+ * @param action What to do with the meeting
+ * @param enabled Whether the action should apply
+ * @returns Promise<MeetingRule[]> The updated rules
+ */
+export async function setMeetingRule(
+    meeting: MeetingInfo,
+    action: RuleAction,
+    enabled: boolean,
+): Promise<MeetingRule[]> {
+    const key = getMeetingKey(meeting)
+    const rules = (await getMeetingRules()).filter(rule => rule.meetingKey !== key || rule.action !== action)
+    if (enabled) {
+        rules.push({
+            id: randomUUID(),
+            action,
+            meetingKey: key,
+            subject: meeting.Subject,
+            start: meeting.parsedDate.getTime(),
+        })
+    }
+    return saveMeetingRules(rules)
+}
+
+/**
+ * Checks whether a rule applies to a meeting.
+ * @param rule The rule
+ * @param meeting The meeting
+ * @returns boolean True if the rule is about this meeting or the subject contains the rule's text
+ */
+export function matchesRule(rule: MeetingRule, meeting: MeetingInfo): boolean {
+    if (rule.meetingKey) {
+        return rule.meetingKey === getMeetingKey(meeting)
+    }
+    const pattern = rule.subjectPattern?.trim().toLowerCase()
+    return pattern ? matchesSubjectPattern(meeting.Subject, [pattern]) : false
+}
+
+/**
+ * Works out how the rules apply to a meeting. A pinned meeting is never hidden.
+ * @param meeting The meeting
+ * @param rules The rules
+ * @returns RuleState Whether the meeting is pinned, hidden and muted
+ */
+export function getRuleState(meeting: MeetingInfo, rules: MeetingRule[]): RuleState {
+    const actions = new Set(rules.filter(rule => matchesRule(rule, meeting)).map(rule => rule.action))
+    const pinned = actions.has(RuleAction.Pin)
+    return { pinned, hidden: !pinned && actions.has(RuleAction.Hide), muted: actions.has(RuleAction.Mute) }
+}
+
+/**
+ * Checks whether a single meeting has a rule with the given action (rules for subjects are not counted).
+ * @param meeting The meeting
+ * @param rules The rules
+ * @param action The action
+ * @returns boolean True if the action was applied to this meeting itself
+ */
+export function hasMeetingRule(meeting: MeetingInfo, rules: MeetingRule[], action: RuleAction): boolean {
+    const key = getMeetingKey(meeting)
+    return rules.some(rule => rule.meetingKey === key && rule.action === action)
+}
+
+/**
+ * Drops the meetings hidden by the rules.
+ * @param meetings The meetings
+ * @param rules The rules
+ * @returns MeetingInfo[] The meetings that are not hidden
+ */
+export function filterHiddenMeetings(meetings: MeetingInfo[], rules: MeetingRule[]): MeetingInfo[] {
+    return meetings.filter(meeting => !getRuleState(meeting, rules).hidden)
+}
+
+/**
+ * Drops the meetings the user declined, which are hidden unless the user chooses to show them.
+ * @param meetings The meetings
+ * @returns MeetingInfo[] The meetings that were not declined
+ */
+export function filterDeclinedMeetings(meetings: MeetingInfo[]): MeetingInfo[] {
+    return meetings.filter(meeting => meeting.responseStatus !== ResponseStatus.Declined)
+}
@@ -0,0 +1,160 @@
+import { formatDuration, formatTime, getMeetingKey, MeetingInfo } from "./meetings"
+
+// Part of the day free slots are looked for in, as minutes after midnight
+export interface WorkingHours {
+    startMinutes: number
+    endMinutes: number
+}
+
+// A range of time
+export interface TimeSlot {
+    start: Date
+    end: Date
+}
+
+// Working hours used when the preferences are not set or invalid (09:00–17:00)
+export const DEFAULT_WORKING_HOURS: WorkingHours = { startMinutes: 9 * 60, endMinutes: 17 * 60 }
+
+// Gaps shorter than this are not listed as free slots
+const MIN_FREE_SLOT_MINUTES = 15
+
+/**
+ * Parses a time of day such as "9:00" or "17:30".
+ * @param value The time in 24-hour HH:MM format
+ * @returns number | undefined Minutes after midnight, or undefined if the value isn't a valid time
+ */
+export function parseTimeOfDay(value: string): number | undefined {
+    const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?$/)
+    if (!match) {
+        return undefined
+    }
+    const hours = parseInt(match[1], 10)
+    const minutes = parseInt(match[2] ?? "0", 10)
+    return hours <= 24 && minutes < 60 && hours * 60 + minutes <= 24 * 60 ? hours * 60 + minutes : undefined
+}
+
+// Checks whether two meetings overlap; meetings that only touch (one ends when the other starts) don't
+function overlaps(a: MeetingInfo, b: MeetingInfo): boolean {
+    return a.parsedDate < b.endDate && b.parsedDate < a.endDate
+}
+
+/**
+ * Finds the meetings that overlap each other.
+ * @param meetings The meetings to compare (e.g. the accepted meetings of a day)
+ * @returns Map<string, MeetingInfo[]> For every meeting key, the other meetings it overlaps with
+ */
+export function findConflicts(meetings: MeetingInfo[]): Map<string, MeetingInfo[]> {
+    const conflicts = new Map<string, MeetingInfo[]>()
+    const sorted = [...meetings].sort((a, b) => a.parsedDate.getTime() - b.parsedDate.getTime())
+
+    sorted.forEach((meeting, index) => {
+        // Sorted by start, so only later meetings starting before this one ends can overlap
+        for (const other of sorted.slice(index + 1)) {
+            if (other.parsedDate >= meeting.endDate) {
+                break
+            }
+            if (overlaps(meeting, other)) {
+                conflicts.set(getMeetingKey(meeting), [...(conflicts.get(getMeetingKey(meeting)) ?? []), other])
+                conflicts.set(getMeetingKey(other), [...(conflicts.get(getMeetingKey(other)) ?? []), meeting])
+            }
+        }
+    })
+
+    return conflicts
+}
+
+/**
+ * Merges overlapping and touching ranges of time.
+ * @param ranges The ranges, in any order
+ * @returns TimeSlot[] Non-overlapping ranges sorted by start
+ */
+export function mergeSlots(ranges: TimeSlot[]): TimeSlot[] {
+    const sorted = [...ranges].sort((a, b) => a.start.getTime() - b.start.getTime())
+    const slots: TimeSlot[] = []
+
+    for (const range of sorted) {
+        const last = slots[slots.length - 1]
+        if (last && range.start <= last.end) {
+            last.end = range.end > last.end ? range.end : last.end
+        } else {
+            slots.push({ start: range.start, end: range.end })
+        }
+    }
+
+    return slots
+}
+
+/**
+ * Merges the meetings into the ranges of time they occupy.
+ * @param meetings The meetings
+ * @returns TimeSlot[] Non-overlapping busy ranges sorted by start
+ */
+export function getBusySlots(meetings: MeetingInfo[]): TimeSlot[] {
+    return mergeSlots(meetings.map(meeting => ({ start: meeting.parsedDate, end: meeting.endDate })))
+}
+
+/**
+ * Summarizes the meetings of a day for a section subtitle, e.g. "5 meetings · 3 h 45 min · 1 conflict".
+ * @param meetings The meetings of the day
+ * @returns string The number of meetings, the time they occupy and the number of overlapping pairs
+ */
+export function getDaySummary(meetings: MeetingInfo[]): string {
+    const busyMs = getBusySlots(meetings).reduce((total, slot) => total + slot.end.getTime() - slot.start.getTime(), 0)
+    // Every overlapping pair is listed under both meetings
+    const conflicts = [...findConflicts(meetings).values()].reduce((total, others) => total + others.length, 0) / 2
+    const parts = [`${meetings.length} ${meetings.length === 1 ? "meeting" : "meetings"}`]
+    if (busyMs > 0) {
+        parts.push(formatDuration(busyMs))
+    }
+    if (conflicts > 0) {
+        parts.push(`${conflicts} ${conflicts === 1 ? "conflict" : "conflicts"}`)
+    }
+    return parts.join(" · ")
+}
+
+/**
+ * Lists the gaps between meetings within the working hours of a day.
+ * @param meetings The meetings (only those overlapping the day are used)
+ * @param day Any time on the day
+ * @param hours The working hours
+ * @param now The current time; earlier parts of the day are not free any more
+ * @returns TimeSlot[] Free slots of at least 15 minutes, sorted by start
+ */
+export function getFreeSlots(meetings: MeetingInfo[], day: Date, hours: WorkingHours, now: Date): TimeSlot[] {
+    const dayStart = new Date(day)
+    dayStart.setHours(0, 0, 0, 0)
+    const workStart = new Date(dayStart)
+    workStart.setMinutes(hours.startMinutes)
+    const workEnd = new Date(dayStart)
+    workEnd.setMinutes(hours.endMinutes)
+
+    let cursor = now > workStart ? now : workStart
+    const slots: TimeSlot[] = []
+    const addSlot = (end: Date) => {
+        if (end.getTime() - cursor.getTime() >= MIN_FREE_SLOT_MINUTES * 60 * 1000) {
+            slots.push({ start: cursor, end })
+        }
+    }
+
+    const busySlots = getBusySlots(meetings.filter(meeting => meeting.parsedDate < workEnd && meeting.endDate > cursor))
+    for (const busy of busySlots) {
+        if (busy.start > cursor) {
+            addSlot(busy.start < workEnd ? busy.start : workEnd)
+        }
+        cursor = busy.end > cursor ? busy.end : cursor
+    }
+    if (cursor < workEnd) {
+        addSlot(workEnd)
+    }
+
+    return slots
+}
+
+/**
+ * Formats a slot as a time range with its length, e.g. "13:00–14:30 (1 h 30 min)".
+ * @param slot The slot
+ * @returns string The formatted slot
+ */
+export function formatSlot(slot: TimeSlot): string {
+    return `${formatTime(slot.start)}–${formatTime(slot.end)} (${formatDuration(slot.end.getTime() - slot.start.getTime())})`
+}
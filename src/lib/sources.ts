@@ -0,0 +1,388 @@
+import { homedir } from "os"
+import { basename, extname, join } from "path"
+import {
+    expandHomePath,
+    fetchMeetings,
+    fileExists,
+    getFileModifiedTime,
+    getMeetingKey,
+    getMeetingsWindow,
+    isFileOlderThanHours,
+    isIcsFile,
+    LoadedMeetings,
+    MeetingInfo,
+    MeetingsWindow,
+    ParseOptions,
+    SkippedRow,
+} from "./meetings"
+import { getCachedMeetings, isCacheCurrent, setCachedMeetings } from "./cache"
+import { DEFAULT_GRAPH_BASE_URL, fetchGraphMeetings, GraphConfig } from "./graph"
+import { isPowerShellSupported, refreshMeetingsWithPowerShell } from "./powershell"
+import { CalendarProvider, getAutoRefreshHours, getParseOptions, getTimeoutSeconds, Preferences } from "./preferences"
+
+// A place meetings are loaded from, such as a CSV file kept up to date by a PowerShell script
+export interface MeetingSource {
+    /** Unique identifier of the source */
+    id: string
+    /** Name shown in the source tag of each meeting */
+    name: string
+    /** Where the source reads from (e.g. a file path), used in messages */
+    location: string
+    /** Loads the meetings of the source within the given window */
+    load(window: MeetingsWindow): Promise<LoadedMeetings>
+    /** Regenerates the source's data; only set for sources that can be refreshed */
+    refresh?(signal?: AbortSignal): Promise<void>
+    /** Checks whether the source's data exists */
+    exists(): Promise<boolean>
+    /** Checks whether the source's data is older than the auto-refresh threshold */
+    isStale(): Promise<boolean>
+    /**
+     * Identifies the current data and parse settings, so unchanged data can be taken from the cache.
+     * Undefined when it can't be known without loading (the source is then always loaded).
+     */
+    getFingerprint(): Promise<string | undefined>
+}
+
+// Outcome of loading a single source
+export interface SourceResult {
+    source: MeetingSource
+    meetings: MeetingInfo[]
+    /** Set when the source could not be loaded */
+    error?: { title: string; message: string }
+    /** True when an automatic refresh failed and the existing data was loaded instead */
+    refreshFailed?: boolean
+    /** True when the loaded data is older than the auto-refresh threshold */
+    stale?: boolean
+    /** Rows of the meetings file that could not be turned into meetings */
+    skippedRows?: SkippedRow[]
+    /** True when the meetings were taken from the cache because loading the source failed */
+    fromCache?: boolean
+}
+
+// Options for loading sources
+export interface LoadOptions {
+    /** Skip the automatic refresh of stale sources (e.g. right after a manual refresh) */
+    skipAgeCheck?: boolean
+    /** Don't create missing data with the source's refresh either (e.g. in background commands) */
+    skipCreate?: boolean
+    /** Called when a long-running step starts, for progress reporting */
+    onProgress?: (title: string, message: string) => void
+    /** Cancels running refreshes when aborted */
+    signal?: AbortSignal
+    /** Reuse cached meetings of unchanged sources, and fall back to them when a source fails to load */
+    useCache?: boolean
+}
+
+// Options for a file-based source
+interface FileSourceOptions {
+    id: string
+    name: string
+    filePath: string
+    autoRefreshHours: number
+    /** Default duration, date format and time zone used to parse the file */
+    parseOptions: ParseOptions
+    /** PowerShell script used to regenerate the file; the file is read-only when omitted */
+    powershell?: {
+        scriptPath: string
+        functionName: string
+        timeoutSeconds: number
+        daysAhead: number
+        daysBehind: number
+    }
+}
+
+/**
+ * Creates a source that reads meetings from a CSV or iCalendar (.ics) file.
+ * @param options The file path, auto-refresh threshold and optional PowerShell script to regenerate the file
+ * @returns MeetingSource The file source
+ */
+export function createFileSource(options: FileSourceOptions): MeetingSource {
+    const { id, name, filePath, autoRefreshHours, parseOptions, powershell } = options
+
+    return {
+        id,
+        name,
+        location: filePath,
+        load: window => fetchMeetings(filePath, window, name, parseOptions),
+        refresh: powershell
+            ? async signal => {
+                  // The script writes the file this source reads
+                  await refreshMeetingsWithPowerShell(powershell.scriptPath, powershell.functionName, {
+                      parameters: {
+                          outputPath: filePath,
+                          daysAhead: powershell.daysAhead,
+                          daysBehind: powershell.daysBehind,
+                      },
+                      timeoutSeconds: powershell.timeoutSeconds,
+                      signal,
+                  })
+              }
+            : undefined,
+        exists: () => fileExists(filePath),
+        isStale: () => isFileOlderThanHours(filePath, autoRefreshHours),
+        getFingerprint: async () => {
+            const modifiedTime = await getFileModifiedTime(filePath)
+            return modifiedTime === undefined ? undefined : `${modifiedTime}|${JSON.stringify(parseOptions)}`
+        },
+    }
+}
+
+/**
+ * Creates a source that loads meetings from the Microsoft 365 calendar through Microsoft Graph.
+ * @param config The app registration settings and Graph base URL
+ * @returns MeetingSource The Graph source (always fresh, since it is queried on every load)
+ */
+export function createGraphSource(config: GraphConfig): MeetingSource {
+    const name = "Microsoft 365"
+
+    return {
+        id: "graph",
+        name,
+        location: config.baseUrl,
+        load: async window => ({ meetings: await fetchGraphMeetings(config, window, name), skippedRows: [] }),
+        exists: async () => true,
+        isStale: async () => false,
+        getFingerprint: async () => undefined,
+    }
+}
+
+/**
+ * Parses the "Additional Sources" preference into named file paths.
+ * Entries are separated by semicolons or new lines and are either a path or "Name=path".
+ * @param value The preference value, e.g. "Team=~/team.csv; ~/tenant-b.ics"
+ * @returns Array of source names and expanded file paths
+ */
+export function parseAdditionalSources(value: string): { name: string; filePath: string }[] {
+    return value
+        .split(/[;\n]/)
+        .map(entry => entry.trim())
+        .filter(entry => entry !== "")
+        .map(entry => {
+            const separator = entry.indexOf("=")
+            const name = separator > 0 ? entry.slice(0, separator).trim() : ""
+            const filePath = expandHomePath(separator > 0 ? entry.slice(separator + 1).trim() : entry)
+            return { name: name || getDefaultSourceName(filePath), filePath }
+        })
+}
+
+// Names an unnamed source after its file (e.g. "meetings" for ~/meetings.csv)
+function getDefaultSourceName(filePath: string): string {
+    return basename(filePath, extname(filePath))
+}
+
+/**
+ * Resolves the "Meetings File Path" preference.
+ * @param preferences The extension's preferences
+ * @returns string The expanded path (defaults to ~/meetings.csv)
+ */
+export function getMeetingsFilePath(preferences: Preferences): string {
+    return expandHomePath(preferences.meetingsFilePath?.trim() || join(homedir(), "meetings.csv"))
+}
+
+/**
+ * Builds the configured sources: the main meetings file (refreshed with PowerShell on Windows unless it is an .ics
+ * file) and/or Microsoft Graph, followed by any additional read-only files.
+ * @param preferences The extension's preferences
+ * @returns MeetingSource[] The sources in priority order
+ */
+export function getMeetingSources(preferences: Preferences): MeetingSource[] {
+    const provider = preferences.calendarProvider || CalendarProvider.File
+    const meetingsFilePath = getMeetingsFilePath(preferences)
+    const autoRefreshHours = getAutoRefreshHours(preferences)
+    const timeoutSeconds = getTimeoutSeconds(preferences)
+    const { daysAhead, daysBehind } = getWindowDays(preferences)
+    const parseOptions = getParseOptions(preferences)
+
+    const sources: MeetingSource[] = []
+
+    if (provider !== CalendarProvider.File) {
+        sources.push(
+            createGraphSource({
+                clientId: preferences.graphClientId?.trim() || "",
+                tenantId: preferences.graphTenantId?.trim() || "common",
+                baseUrl: preferences.graphBaseUrl?.trim() || DEFAULT_GRAPH_BASE_URL,
+            }),
+        )
+    }
+
+    if (provider !== CalendarProvider.Graph) {
+        sources.push(
+            createFileSource({
+                id: "main",
+                name: getDefaultSourceName(meetingsFilePath),
+                filePath: meetingsFilePath,
+                autoRefreshHours,
+                parseOptions,
+                // Calendar (.ics) files are read directly and never refreshed with PowerShell, and other platforms
+                // only read the file exported on Windows
+                powershell:
+                    isIcsFile(meetingsFilePath) || !isPowerShellSupported()
+                        ? undefined
+                        : {
+                              scriptPath: preferences.powershellScriptPath || "",
+                              functionName: preferences.powershellFunctionName || "",
+                              timeoutSeconds,
+                              daysAhead,
+                              daysBehind,
+                          },
+            }),
+        )
+    }
+
+    parseAdditionalSources(preferences.additionalSources || "").forEach(({ name, filePath }, index) => {
+        sources.push(createFileSource({ id: `additional-${index}`, name, filePath, autoRefreshHours, parseOptions }))
+    })
+
+    return sources
+}
+
+/**
+ * Parses the "Days Ahead" and "Days Behind" preferences.
+ * @param preferences The extension's preferences
+ * @returns The number of days after and before today (defaults to 5 days ahead)
+ */
+export function getWindowDays(preferences: Preferences): { daysAhead: number; daysBehind: number } {
+    return {
+        daysAhead: Math.max(0, parseInt(preferences.daysAhead || "5", 10) || 0),
+        daysBehind: Math.max(0, parseInt(preferences.daysBehind || "0", 10) || 0),
+    }
+}
+
+/**
+ * Computes the window of days to load meetings for from the preferences.
+ * @param preferences The extension's preferences
+ * @returns MeetingsWindow The window (defaults to 5 days ahead)
+ */
+export function getPreferencesWindow(preferences: Preferences): MeetingsWindow {
+    const { daysAhead, daysBehind } = getWindowDays(preferences)
+    return getMeetingsWindow(daysBehind, daysAhead)
+}
+
+/**
+ * Loads a single source, creating its data if missing and refreshing it when stale.
+ * Never throws: failures are reported in the result so other sources can still be shown.
+ * @param source The source to load
+ * @param window Range of time to load meetings for
+ * @param options Loading options
+ * @returns Promise<SourceResult> The meetings, or the error that prevented loading them
+ */
+export async function loadFromSource(
+    source: MeetingSource,
+    window: MeetingsWindow,
+    options: LoadOptions = {},
+): Promise<SourceResult> {
+    const { skipAgeCheck = false, skipCreate = false, onProgress, signal, useCache = false } = options
+    const cached = useCache ? getCachedMeetings(source) : undefined
+    const fail = (title: string, message: string): SourceResult => {
+        console.error(`${source.name}: ${message}`)
+        // Keep showing the last meetings loaded from the source rather than none
+        if (cached) {
+            const { meetings, skippedRows } = cached
+            return { source, meetings, skippedRows, error: { title, message }, stale: true, fromCache: true }
+        }
+        return { source, meetings: [], error: { title, message } }
+    }
+
+    try {
+        // Check if the data exists first, creating it when the source can be refreshed
+        const exists = await source.exists()
+        if (!exists && !skipCreate && source.refresh) {
+            onProgress?.("Meetings file not found", "Creating meetings file with PowerShell script...")
+            console.log("Meetings file not found at:", source.location)
+
+            try {
+                await source.refresh(signal)
+            } catch (refreshError) {
+                console.error("Full error:", refreshError)
+                return fail(
+                    "PowerShell Script Failed",
+                    refreshError instanceof Error ? refreshError.message : "Unknown error",
+                )
+            }
+
+            // Verify the file was actually created
+            if (!(await source.exists())) {
+                return fail(
+                    "Failed to Create Meetings File",
+                    `PowerShell script completed but file was not created at: ${source.location}`,
+                )
+            }
+            console.log("Meetings file successfully created")
+        }
+
+        // Check if the data is older than the configured threshold and auto-refresh if needed
+        let refreshFailed = false
+        if (exists && !skipAgeCheck && source.refresh && (await source.isStale())) {
+            onProgress?.("File is outdated, refreshing...", `Meetings file of ${source.name} is outdated, updating`)
+            try {
+                await source.refresh(signal)
+            } catch (refreshError) {
+                console.error("Auto-refresh failed:", refreshError)
+                refreshFailed = true
+            }
+        }
+
+        // Final check to ensure the data exists before fetching
+        if (!(await source.exists())) {
+            return fail("Meetings File Not Found", `File does not exist at: ${source.location}`)
+        }
+
+        // Parse the data again only when it changed since it was cached
+        const fingerprint = useCache ? await source.getFingerprint() : undefined
+        const { meetings, skippedRows } =
+            cached && isCacheCurrent(cached, window, fingerprint) ? cached : await source.load(window)
+        if (useCache) {
+            setCachedMeetings(source, window, { meetings, skippedRows }, fingerprint)
+        }
+        // Read-only sources and sources whose refresh failed can still be outdated
+        const stale = await source.isStale()
+        return { source, meetings, refreshFailed, stale, skippedRows }
+    } catch (error) {
+        return fail("Error Fetching Meetings", error instanceof Error ? error.message : "An unknown error occurred")
+    }
+}
+
+/**
+ * Loads all sources in parallel and merges their meetings.
+ * @param sources The sources to load, in priority order
+ * @param window Range of time to load meetings for
+ * @param options Loading options
+ * @returns The merged meetings and the result of every source
+ */
+export async function loadFromSources(
+    sources: MeetingSource[],
+    window: MeetingsWindow,
+    options: LoadOptions = {},
+): Promise<{ meetings: MeetingInfo[]; results: SourceResult[] }> {
+    const results = await Promise.all(sources.map(source => loadFromSource(source, window, options)))
+    return { meetings: mergeMeetings(results.map(result => result.meetings)), results }
+}
+
+/**
+ * Reads the meetings cached by the last load of the sources, for showing them before the sources are revalidated.
+ * @param sources The sources, in priority order
+ * @returns MeetingInfo[] The merged cached meetings (empty if nothing was cached)
+ */
+export function getCachedMeetingList(sources: MeetingSource[]): MeetingInfo[] {
+    return mergeMeetings(sources.map(source => getCachedMeetings(source)?.meetings ?? []))
+}
+
+/**
+ * Merges meeting lists, keeping the first occurrence of meetings with the same Teams link and start time.
+ * @param lists Meeting lists in priority order
+ * @returns MeetingInfo[] The de-duplicated meetings sorted by start time
+ */
+export function mergeMeetings(lists: MeetingInfo[][]): MeetingInfo[] {
+    const seen = new Set<string>()
+    const merged: MeetingInfo[] = []
+
+    for (const meeting of lists.flat()) {
+        const key = getMeetingKey(meeting)
+        if (!seen.has(key)) {
+            seen.add(key)
+            merged.push(meeting)
+        }
+    }
+
+    return merged.sort((a, b) => a.parsedDate.getTime() - b.parsedDate.getTime())
+}
@@ -0,0 +1,213 @@
+import { formatCsv } from "./csv"
+import { formatFileDate } from "./downloads"
+import { JoinRecord } from "./history"
+import { MeetingInfo } from "./meetings"
+import { mergeSlots, TimeSlot } from "./schedule"
+
+// A meeting counted in the statistics, from the join history or the loaded schedule
+interface StatsMeeting {
+    subject: string
+    start: Date
+    end: Date
+}
+
+// Number of meetings and time spent in them during a day or week
+export interface PeriodStats {
+    start: Date
+    end: Date
+    meetings: number
+    /** Time in meetings, with overlapping meetings counted once */
+    busyMs: number
+}
+
+// A subject that occurs repeatedly, e.g. a daily standup
+export interface FrequentMeeting {
+    subject: string
+    count: number
+    totalMs: number
+}
+
+// Meetings that follow each other without a break
+export interface MeetingStreak {
+    start: Date
+    end: Date
+    subjects: string[]
+}
+
+// Statistics computed by getMeetingStats
+export interface MeetingStats {
+    days: PeriodStats[]
+    weeks: PeriodStats[]
+    frequent: FrequentMeeting[]
+    streaks: MeetingStreak[]
+}
+
+// Days and weeks before the current one that are included
+const PAST_DAYS = 7
+const PAST_WEEKS = 4
+
+// Meetings starting at most this long after the previous one ended count as back-to-back
+const BACK_TO_BACK_GAP_MS = 5 * 60 * 1000
+
+// Fewest meetings in a row that count as a streak
+const MIN_STREAK_MEETINGS = 3
+
+// Number of frequent meetings and streaks listed
+const MAX_FREQUENT_MEETINGS = 10
+const MAX_STREAKS = 10
+
+// Combines the joined meetings that have a scheduled time with the schedule, counting each meeting once
+function collectMeetings(history: JoinRecord[], schedule: MeetingInfo[]): StatsMeeting[] {
+    const meetings = new Map<string, StatsMeeting>()
+    const add = (meeting: StatsMeeting) =>
+        meetings.set(`${meeting.subject.toLowerCase()}|${meeting.start.getTime()}`, meeting)
+
+    for (const record of history) {
+        if (record.scheduledStart !== undefined && record.scheduledEnd !== undefined) {
+            add({ subject: record.subject, start: new Date(record.scheduledStart), end: new Date(record.scheduledEnd) })
+        }
+    }
+    schedule.forEach(meeting => add({ subject: meeting.Subject, start: meeting.parsedDate, end: meeting.endDate }))
+
+    return [...meetings.values()].sort((a, b) => a.start.getTime() - b.start.getTime())
+}
+
+// Counts the meetings starting in a period and the busy time within it
+function getPeriodStats(meetings: StatsMeeting[], slots: TimeSlot[], start: Date, end: Date): PeriodStats {
+    const busyMs = slots.reduce(
+        (total, slot) =>
+            total +
+            Math.max(0, Math.min(slot.end.getTime(), end.getTime()) - Math.max(slot.start.getTime(), start.getTime())),
+        0,
+    )
+    return {
+        start,
+        end,
+        meetings: meetings.filter(meeting => meeting.start >= start && meeting.start < end).length,
+        busyMs,
+    }
+}
+
+// Adds days to a date, keeping the time of day across daylight saving changes
+function addDays(date: Date, days: number): Date {
+    const result = new Date(date)
+    result.setDate(result.getDate() + days)
+    return result
+}
+
+// Finds runs of meetings on the same day that follow each other without a break
+function findStreaks(meetings: StatsMeeting[]): MeetingStreak[] {
+    const streaks: MeetingStreak[] = []
+    let run: StatsMeeting[] = []
+    let runEnd = 0
+
+    const closeRun = () => {
+        if (run.length >= MIN_STREAK_MEETINGS) {
+            streaks.push({ start: run[0].start, end: new Date(runEnd), subjects: run.map(({ subject }) => subject) })
+        }
+    }
+
+    for (const meeting of meetings) {
+        const continues =
+            run.length > 0 &&
+            meeting.start.getTime() - runEnd <= BACK_TO_BACK_GAP_MS &&
+            meeting.start.toDateString() === run[0].start.toDateString()
+        if (!continues) {
+            closeRun()
+            run = []
+            runEnd = 0
+        }
+        run.push(meeting)
+        runEnd = Math.max(runEnd, meeting.end.getTime())
+    }
+    closeRun()
+
+    return streaks
+        .sort(
+            (a, b) =>
+                b.subjects.length - a.subjects.length ||
+                b.end.getTime() - b.start.getTime() - (a.end.getTime() - a.start.getTime()),
+        )
+        .slice(0, MAX_STREAKS)
+}
+
+// Lists the subjects that occur more than once, most frequent first
+function findFrequentMeetings(meetings: StatsMeeting[]): FrequentMeeting[] {
+    const bySubject = new Map<string, FrequentMeeting>()
+    for (const meeting of meetings) {
+        const key = meeting.subject.trim().toLowerCase()
+        const entry = bySubject.get(key) ?? { subject: meeting.subject, count: 0, totalMs: 0 }
+        bySubject.set(key, {
+            // Meetings are sorted by start, so the latest spelling of the subject is shown
+            subject: meeting.subject,
+            count: entry.count + 1,
+            totalMs: entry.totalMs + meeting.end.getTime() - meeting.start.getTime(),
+        })
+    }
+
+    return [...bySubject.values()]
+        .filter(({ count }) => count > 1)
+        .sort((a, b) => b.count - a.count || b.totalMs - a.totalMs)
+        .slice(0, MAX_FREQUENT_MEETINGS)
+}
+
+/**
+ * Computes time spent in meetings per day and week, the most frequent meetings and back-to-back streaks from the
+ * join history and the loaded schedule. Joins without a scheduled time (e.g. by link or ID) are not counted.
+ * @param history The join history
+ * @param schedule The loaded meetings that take time (e.g. without declined or hidden meetings)
+ * @param now The current time
+ * @param scheduleEnd End of the loaded schedule; days and weeks up to it are included
+ * @returns MeetingStats The statistics
+ */
+export function getMeetingStats(
+    history: JoinRecord[],
+    schedule: MeetingInfo[],
+    now: Date,
+    scheduleEnd: Date,
+): MeetingStats {
+    const meetings = collectMeetings(history, schedule)
+    const slots = mergeSlots(meetings.map(({ start, end }) => ({ start, end })))
+
+    const today = new Date(now)
+    today.setHours(0, 0, 0, 0)
+    const lastDay = scheduleEnd > today ? scheduleEnd : addDays(today, 1)
+
+    const days: PeriodStats[] = []
+    for (let day = addDays(today, -PAST_DAYS); day < lastDay; day = addDays(day, 1)) {
+        const stats = getPeriodStats(meetings, slots, day, addDays(day, 1))
+        const isWeekend = day.getDay() === 0 || day.getDay() === 6
+        // Weekends are only listed when they have meetings
+        if (!isWeekend || stats.meetings > 0) {
+            days.push(stats)
+        }
+    }
+
+    // Weeks start on Monday; getDay() is 0 for Sunday
+    const monday = addDays(today, -((today.getDay() + 6) % 7))
+    const weeks: PeriodStats[] = []
+    for (let week = addDays(monday, -7 * PAST_WEEKS); week < lastDay; week = addDays(week, 7)) {
+        weeks.push(getPeriodStats(meetings, slots, week, addDays(week, 7)))
+    }
+
+    return { days, weeks, frequent: findFrequentMeetings(meetings), streaks: findStreaks(meetings) }
+}
+
+/**
+ * Writes the meetings per day and week as CSV.
+ * @param stats The statistics
+ * @returns string The CSV content with a header row
+ */
+export function formatStatsCsv(stats: MeetingStats): string {
+    const toRow = (period: string, { start, meetings, busyMs }: PeriodStats) => [
+        period,
+        formatFileDate(start),
+        String(meetings),
+        (busyMs / (60 * 60 * 1000)).toFixed(2),
+    ]
+    return formatCsv([
+        ["Period", "Start", "Meetings", "Hours"],
+        ...stats.days.map(day => toRow("Day", day)),
+        ...stats.weeks.map(week => toRow("Week", week)),
+    ])
+}
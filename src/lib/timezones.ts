@@ -0,0 +1,53 @@
+// Converts a wall-clock time (encoded as if it were UTC milliseconds) into an absolute point in time
+export type ZoneResolver = (wall: number) => Date
+
+// Floating times (and zones we can't resolve) are interpreted in the local time zone
+export const floatingResolver: ZoneResolver = wall => {
+    const d = new Date(wall)
+    return new Date(
+        d.getUTCFullYear(),
+        d.getUTCMonth(),
+        d.getUTCDate(),
+        d.getUTCHours(),
+        d.getUTCMinutes(),
+        d.getUTCSeconds(),
+    )
+}
+
+/**
+ * Creates a resolver for an IANA time zone name (e.g. "Europe/Berlin") using Intl.
+ * @param tzid The zone name (e.g. a TZID parameter value)
+ * @returns ZoneResolver | undefined The resolver, or undefined if the runtime doesn't know the zone
+ */
+export function createIanaResolver(tzid: string): ZoneResolver | undefined {
+    let formatter: Intl.DateTimeFormat
+    try {
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone: tzid,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+        })
+    } catch {
+        return undefined
+    }
+
+    // Offset of the zone from UTC at the given instant, in milliseconds
+    const offsetAt = (instant: number): number => {
+        const parts: Record<string, number> = {}
+        for (const part of formatter.formatToParts(new Date(instant))) {
+            parts[part.type] = parseInt(part.value)
+        }
+        const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+        return asUtc - Math.floor(instant / 1000) * 1000
+    }
+
+    return wall => {
+        const guess = wall - offsetAt(wall)
+        return new Date(wall - offsetAt(guess))
+    }
+}
@@ -0,0 +1,240 @@
+import {
+    Action,
+    ActionPanel,
+    Alert,
+    Color,
+    confirmAlert,
+    getPreferenceValues,
+    Icon,
+    List,
+    showInFinder,
+    showToast,
+    Toast,
+} from "@raycast/api"
+import { getFavicon } from "@raycast/utils"
+import { useEffect, useState } from "react"
+import { MeetingStatsList } from "./components/meeting-stats"
+import { formatFileDate, saveToDownloads } from "./lib/downloads"
+import {
+    clearJoinHistory,
+    formatHistoryCsv,
+    getJoinHistory,
+    getLateMinutes,
+    JoinRecord,
+    removeJoinRecord,
+} from "./lib/history"
+import { openTeamsLink } from "./lib/join"
+import { formatTime } from "./lib/meetings"
+import { getJoinSettings, Preferences } from "./lib/preferences"
+
+// Function to get the title of a day, e.g. "Today" or "Monday, Oct 19"
+function getDayTitle(date: Date, now: Date): string {
+    const yesterday = new Date(now)
+    yesterday.setDate(yesterday.getDate() - 1)
+
+    if (date.toDateString() === now.toDateString()) {
+        return "Today"
+    } else if (date.toDateString() === yesterday.toDateString()) {
+        return "Yesterday"
+    }
+    return date.toLocaleDateString([], { weekday: "long", month: "short", day: "numeric", year: "numeric" })
+}
+
+// Function to describe when a meeting was scheduled, e.g. "09:00–09:30"
+function getScheduledTime(record: JoinRecord): string | undefined {
+    if (record.scheduledStart === undefined) {
+        return undefined
+    }
+    const start = formatTime(new Date(record.scheduledStart))
+    return record.scheduledEnd === undefined ? start : `${start}–${formatTime(new Date(record.scheduledEnd))}`
+}
+
+/**
+ * Lists the meetings joined through the extension, searchable by subject and date, with how late each was joined.
+ */
+export default function Command() {
+    const preferences = getPreferenceValues<Preferences>()
+    const [records, setRecords] = useState<JoinRecord[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const now = new Date()
+
+    // useEffect with an empty dependency array runs only once on mount
+    useEffect(() => {
+        getJoinHistory()
+            .then(setRecords)
+            .catch(async error => {
+                console.error("Failed to read the join history:", error)
+                await showToast({
+                    style: Toast.Style.Failure,
+                    title: "Failed to Load History",
+                    message: error instanceof Error ? error.message : String(error),
+                })
+            })
+            .finally(() => setIsLoading(false))
+    }, [])
+
+    // Group joins by the day they were made; the history is already sorted with the most recent first
+    const days = records.reduce<{ title: string; records: JoinRecord[] }[]>((groups, record) => {
+        const title = getDayTitle(new Date(record.joinedAt), now)
+        const last = groups[groups.length - 1]
+        if (last?.title === title) {
+            last.records.push(record)
+        } else {
+            groups.push({ title, records: [record] })
+        }
+        return groups
+    }, [])
+
+    // Function to join a meeting again; the new join is added to the history
+    const joinAgain = async (record: JoinRecord) => {
+        const meeting = {
+            subject: record.subject,
+            scheduledStart: record.scheduledStart === undefined ? undefined : new Date(record.scheduledStart),
+            scheduledEnd: record.scheduledEnd === undefined ? undefined : new Date(record.scheduledEnd),
+            source: record.source,
+        }
+        if (await openTeamsLink(record.url, meeting, getJoinSettings(preferences))) {
+            setRecords(await getJoinHistory())
+        }
+    }
+
+    // Function to remove a join from the history
+    const remove = async (record: JoinRecord) => {
+        setRecords(await removeJoinRecord(record.id))
+        await showToast({ style: Toast.Style.Success, title: "Removed from History", message: record.subject })
+    }
+
+    // Function to remove all joins after confirmation
+    const clear = async () => {
+        const confirmed = await confirmAlert({
+            title: "Clear Meeting History?",
+            message: "All recorded joins are removed. This can't be undone.",
+            primaryAction: { title: "Clear History", style: Alert.ActionStyle.Destructive },
+        })
+        if (confirmed) {
+            await clearJoinHistory()
+            setRecords([])
+        }
+    }
+
+    // Function to save the history as CSV in the Downloads folder
+    const exportCsv = async () => {
+        try {
+            const filePath = await saveToDownloads(
+                `meeting-history-${formatFileDate(now)}.csv`,
+                formatHistoryCsv(records),
+            )
+            await showToast({
+                style: Toast.Style.Success,
+                title: "History Exported",
+                message: filePath,
+                primaryAction: { title: "Show File", onAction: () => showInFinder(filePath) },
+            })
+        } catch (error) {
+            await showToast({
+                style: Toast.Style.Failure,
+                title: "Failed to Export History",
+                message: error instanceof Error ? error.message : String(error),
+            })
+        }
+    }
+
+    const statsAction = (
+        <Action.Push
+            title="Show Statistics"
+            icon={Icon.BarChart}
+            target={<MeetingStatsList history={records} />}
+            shortcut={{
+                macOS: { modifiers: ["cmd"], key: "t" },
+                windows: { modifiers: ["ctrl"], key: "t" },
+            }}
+        />
+    )
+
+    return (
+        <List isLoading={isLoading} searchBarPlaceholder="Search by subject or date (e.g. 2026-10-19 or Monday)...">
+            {days.map(day => (
+                <List.Section key={day.title} title={day.title} subtitle={`${day.records.length}`}>
+                    {day.records.map(record => {
+                        const joinedAt = new Date(record.joinedAt)
+                        const lateMinutes = getLateMinutes(record)
+
+                        return (
+                            <List.Item
+                                key={record.id}
+                                title={record.subject}
+                                subtitle={getScheduledTime(record)}
+                                icon={getFavicon(record.url, { fallback: Icon.Video })}
+                                keywords={[
+                                    formatFileDate(joinedAt),
+                                    day.title,
+                                    ...joinedAt
+                                        .toLocaleDateString([], { weekday: "long", month: "long", day: "numeric" })
+                                        .split(/[\s,]+/),
+                                    record.source,
+                                ]}
+                                accessories={[
+                                    ...(lateMinutes !== undefined
+                                        ? [
+                                              {
+                                                  tag: { value: `Late by ${lateMinutes} min`, color: Color.Orange },
+                                                  tooltip: "Joined after the scheduled start",
+                                              },
+                                          ]
+                                        : []),
+                                    { tag: record.source },
+                                    { text: formatTime(joinedAt), tooltip: `Joined ${joinedAt.toLocaleString()}` },
+                                ]}
+                                actions={
+                                    <ActionPanel>
+                                        <Action
+                                            title="Join Again"
+                                            icon={Icon.Video}
+                                            onAction={() => joinAgain(record)}
+                                        />
+                                        <Action.CopyToClipboard
+                                            title="Copy Meeting Link"
+                                            content={record.url}
+                                            shortcut={{
+                                                macOS: { modifiers: ["cmd"], key: "c" },
+                                                windows: { modifiers: ["ctrl"], key: "c" },
+                                            }}
+                                        />
+                                        {statsAction}
+                                        <Action
+                                            title="Export History as Spreadsheet"
+                                            icon={Icon.Download}
+                                            onAction={exportCsv}
+                                        />
+                                        <Action
+                                            title="Remove from History"
+                                            icon={Icon.Trash}
+                                            style={Action.Style.Destructive}
+                                            onAction={() => remove(record)}
+                                            shortcut={{
+                                                macOS: { modifiers: ["ctrl"], key: "x" },
+                                                windows: { modifiers: ["ctrl", "shift"], key: "x" },
+                                            }}
+                                        />
+                                        <Action
+                                            title="Clear History"
+                                            icon={Icon.XMarkCircle}
+                                            style={Action.Style.Destructive}
+                                            onAction={clear}
+                                        />
+                                    </ActionPanel>
+                                }
+                            />
+                        )
+                    })}
+                </List.Section>
+            ))}
+            <List.EmptyView
+                title="No Meetings Joined Yet"
+                description="Meetings you join through the extension are recorded here."
+                icon={Icon.Clock}
+                actions={<ActionPanel>{statsAction}</ActionPanel>}
+            />
+        </List>
+    )
+}
@@ -0,0 +1,68 @@
+import { getPreferenceValues, showHUD } from "@raycast/api"
+import { getJoinedMeeting } from "./lib/history"
+import { openTeamsLink } from "./lib/join"
+import { formatDuration } from "./lib/meetings"
+import { getJoinSettings, getReminderMinutes, Preferences } from "./lib/preferences"
+import {
+    getMeetingsToAutoJoin,
+    getMeetingsToRemind,
+    markAnnounced,
+    markAutoJoined,
+    parseSubjectPatterns,
+} from "./lib/reminders"
+import { filterDeclinedMeetings, getMeetingRules, getRuleState } from "./lib/rules"
+import { getMeetingSources, getPreferencesWindow, loadFromSources } from "./lib/sources"
+
+/**
+ * Runs in the background every minute: shows a reminder shortly before each meeting starts (once per meeting)
+ * and joins meetings marked for auto-join when they start.
+ */
+export default async function Command() {
+    const preferences = getPreferenceValues<Preferences>()
+    // Only read the existing data, so this never refreshes the meetings file at the same time as another command
+    const { meetings: loadedMeetings, results } = await loadFromSources(
+        getMeetingSources(preferences),
+        getPreferencesWindow(preferences),
+        {
+            skipAgeCheck: true,
+            skipCreate: true,
+            useCache: true,
+        },
+    )
+    results
+        .filter(result => result.error)
+        .forEach(result => console.error(`Reminders skipped ${result.source.name}: ${result.error?.message}`))
+
+    // Declined meetings are never announced or joined
+    const meetings = filterDeclinedMeetings(loadedMeetings)
+    const now = new Date()
+
+    // Joining takes priority over reminding, since both would show a HUD
+    const toJoin = await getMeetingsToAutoJoin(meetings, now, parseSubjectPatterns(preferences.autoJoinSubjects || ""))
+    if (toJoin.length > 0) {
+        // Record the meetings first so a slow launch is never repeated by the next run
+        await markAutoJoined(toJoin)
+        for (const meeting of toJoin) {
+            await openTeamsLink(meeting.TeamsLink, getJoinedMeeting(meeting), getJoinSettings(preferences))
+        }
+        await showHUD(`Auto-joining ${toJoin.map(meeting => meeting.Subject).join(", ")}`)
+        return
+    }
+
+    // Muted and hidden meetings get no reminders
+    const rules = await getMeetingRules()
+    const toRemind = await getMeetingsToRemind(
+        meetings.filter(meeting => {
+            const { muted, hidden } = getRuleState(meeting, rules)
+            return !muted && !hidden
+        }),
+        now,
+        getReminderMinutes(preferences),
+    )
+    if (toRemind.length > 0) {
+        await markAnnounced(toRemind)
+        const [first, ...others] = toRemind
+        const startsIn = formatDuration(first.parsedDate.getTime() - now.getTime())
+        await showHUD(`${first.Subject} starts in ${startsIn}${others.length > 0 ? ` (+${others.length} more)` : ""}`)
+    }
+}
@@ -0,0 +1,192 @@
+import {
+    Clipboard,
+    Color,
+    getPreferenceValues,
+    Icon,
+    launchCommand,
+    LaunchType,
+    MenuBarExtra,
+    openExtensionPreferences,
+    showHUD,
+} from "@raycast/api"
+import { useEffect, useState } from "react"
+import { getJoinedMeeting } from "./lib/history"
+import { openTeamsLink } from "./lib/join"
+import { getProviderName } from "./lib/links"
+import { getMeetingCountdown, getMeetingStatus, MeetingInfo, MeetingStatus } from "./lib/meetings"
+import { getLastRefreshLog, RefreshOutcome } from "./lib/powershell"
+import { getEarlyJoinMinutes, getJoinSettings, Preferences } from "./lib/preferences"
+import { filterDeclinedMeetings, filterHiddenMeetings, getMeetingRules } from "./lib/rules"
+import { getMeetingSources, getPreferencesWindow, loadFromSources, SourceResult } from "./lib/sources"
+
+// A failed refresh is retried by the menu bar at most this often
+const REFRESH_RETRY_MS = 15 * 60 * 1000
+
+// Longest meeting subject shown in the menu bar before it is shortened
+const MAX_TITLE_LENGTH = 24
+
+// Function to shorten a subject for the menu bar title
+function truncate(text: string, maxLength: number): string {
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text
+}
+
+// Function to describe why a source needs attention, or undefined if it loaded fine
+function getSourceWarning(result: SourceResult): string | undefined {
+    if (result.error) {
+        return `${result.source.name}: ${result.error.title}`
+    }
+    if (result.refreshFailed) {
+        return `${result.source.name}: auto-refresh failed`
+    }
+    if (result.stale) {
+        return `${result.source.name}: meetings file is outdated`
+    }
+    return undefined
+}
+
+// A meeting with Join and Copy Link items
+function MeetingMenu(props: { meeting: MeetingInfo; now: Date; isActive?: boolean }) {
+    const { meeting, now, isActive } = props
+    const countdown = getMeetingCountdown(meeting, now)
+    const joinSettings = getJoinSettings(getPreferenceValues<Preferences>())
+
+    return (
+        <MenuBarExtra.Submenu
+            title={`${meeting.timeDisplay}  ${meeting.Subject}`}
+            icon={isActive ? Icon.Video : Icon.Calendar}
+        >
+            {countdown && <MenuBarExtra.Item title={countdown} icon={Icon.Clock} />}
+            <MenuBarExtra.Item
+                title={`Join ${getProviderName(meeting.provider)} Meeting`}
+                icon={Icon.Video}
+                onAction={() => openTeamsLink(meeting.TeamsLink, getJoinedMeeting(meeting), joinSettings)}
+            />
+            <MenuBarExtra.Item
+                title="Copy Meeting Link"
+                icon={Icon.CopyClipboard}
+                onAction={async () => {
+                    await Clipboard.copy(meeting.TeamsLink)
+                    await showHUD("Meeting link copied to clipboard")
+                }}
+            />
+        </MenuBarExtra.Submenu>
+    )
+}
+
+export default function Command() {
+    const [meetings, setMeetings] = useState<MeetingInfo[]>([])
+    const [results, setResults] = useState<SourceResult[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [loadError, setLoadError] = useState<string>()
+    const preferences = getPreferenceValues<Preferences>()
+    const earlyJoinMinutes = getEarlyJoinMinutes(preferences)
+    const now = new Date()
+
+    // Load through the same pipeline as Find Teams Meetings, auto-refreshing sources older than autoRefreshHours.
+    // Only one refresh runs at a time, and after a failed refresh the existing data is read until the retry interval
+    // has passed, rather than starting PowerShell every minute.
+    useEffect(() => {
+        getLastRefreshLog()
+            .then(log => {
+                const retryLater =
+                    log !== undefined &&
+                    (log.outcome === RefreshOutcome.Failed || log.outcome === RefreshOutcome.TimedOut) &&
+                    Date.now() - new Date(log.startedAt).getTime() < REFRESH_RETRY_MS
+                return Promise.all([
+                    loadFromSources(getMeetingSources(preferences), getPreferencesWindow(preferences), {
+                        skipAgeCheck: retryLater,
+                        skipCreate: retryLater,
+                        useCache: true,
+                    }),
+                    getMeetingRules(),
+                ])
+            })
+            .then(([loaded, rules]) => {
+                // Declined meetings and meetings hidden by rules are left out of the menu bar too
+                setMeetings(filterHiddenMeetings(filterDeclinedMeetings(loaded.meetings), rules))
+                setResults(loaded.results)
+            })
+            .catch(error => {
+                console.error("Failed to load meetings for the menu bar:", error)
+                setLoadError(`Could not load meetings: ${error instanceof Error ? error.message : String(error)}`)
+            })
+            .finally(() => setIsLoading(false))
+    }, [])
+
+    // The rest of today's meetings, grouped as Now / Next / Later
+    const today = meetings.filter(
+        meeting =>
+            meeting.parsedDate.toDateString() === now.toDateString() &&
+            getMeetingStatus(meeting.parsedDate, meeting.endDate, now, earlyJoinMinutes) !== MeetingStatus.Ended,
+    )
+    const current = today.filter(
+        meeting =>
+            getMeetingStatus(meeting.parsedDate, meeting.endDate, now, earlyJoinMinutes) === MeetingStatus.Active,
+    )
+    const [next, ...later] = today.filter(meeting => !current.includes(meeting))
+
+    const warnings = [loadError, ...results.map(getSourceWarning)].filter(
+        (warning): warning is string => warning !== undefined,
+    )
+    const headline = current[0] ?? next
+    const countdown = headline && getMeetingCountdown(headline, now)
+
+    return (
+        <MenuBarExtra
+            isLoading={isLoading}
+            icon={warnings.length > 0 ? { source: Icon.Warning, tintColor: Color.Orange } : Icon.Video}
+            title={
+                headline
+                    ? `${truncate(headline.Subject, MAX_TITLE_LENGTH)}${countdown ? ` · ${countdown}` : ""}`
+                    : undefined
+            }
+            tooltip={headline ? `${headline.Subject} (${headline.timeDisplay})` : "No more meetings today"}
+        >
+            {warnings.length > 0 && (
+                <MenuBarExtra.Section title="Needs Attention">
+                    {warnings.map(warning => (
+                        <MenuBarExtra.Item
+                            key={warning}
+                            title={warning}
+                            icon={{ source: Icon.Warning, tintColor: Color.Orange }}
+                            onAction={() => launchCommand({ name: "find-meetings", type: LaunchType.UserInitiated })}
+                        />
+                    ))}
+                </MenuBarExtra.Section>
+            )}
+            {current.length > 0 && (
+                <MenuBarExtra.Section title="Now">
+                    {current.map(meeting => (
+                        <MeetingMenu
+                            key={`${meeting.TeamsLink}-${meeting.StartTime}`}
+                            meeting={meeting}
+                            now={now}
+                            isActive
+                        />
+                    ))}
+                </MenuBarExtra.Section>
+            )}
+            {next && (
+                <MenuBarExtra.Section title="Next">
+                    <MeetingMenu meeting={next} now={now} />
+                </MenuBarExtra.Section>
+            )}
+            {later.length > 0 && (
+                <MenuBarExtra.Section title="Later">
+                    {later.map(meeting => (
+                        <MeetingMenu key={`${meeting.TeamsLink}-${meeting.StartTime}`} meeting={meeting} now={now} />
+                    ))}
+                </MenuBarExtra.Section>
+            )}
+            {!isLoading && today.length === 0 && <MenuBarExtra.Item title="No more meetings today" />}
+            <MenuBarExtra.Section>
+                <MenuBarExtra.Item
+                    title="Find Teams Meetings"
+                    icon={Icon.List}
+                    onAction={() => launchCommand({ name: "find-meetings", type: LaunchType.UserInitiated })}
+                />
+                <MenuBarExtra.Item title="Configure Extension" icon={Icon.Gear} onAction={openExtensionPreferences} />
+            </MenuBarExtra.Section>
+        </MenuBarExtra>
+    )
+}